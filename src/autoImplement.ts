@@ -0,0 +1,186 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {Disposable, EventEmitter, Position, Range, Selection, TextDocument, TextDocumentContentProvider, TextEdit, TextEditor, TextEditorRevealType, Uri, window, workspace} from 'vscode';
+
+const kSourceExtensions = ['.cc', '.cpp', '.cxx', '.c++', '.c', '.mm', '.m'];
+
+// Returns the source file next to |header| with the same name, ie, foo.cc for
+// foo.h.
+export function findPairedSourceFile(header: string): string|undefined {
+  let base = header.substr(0, header.length - path.extname(header).length);
+  for (let extension of kSourceExtensions) {
+    let file = base + extension;
+    if (file != header && fs.existsSync(file))
+      return file;
+  }
+  return undefined;
+}
+
+// Appends |stubs| to |document|.
+export function makeAppendEdits(
+    document: TextDocument, stubs: string[]): TextEdit[] {
+  let end = document.lineAt(document.lineCount - 1).range.end;
+  let text = stubs.join('');
+  if (!document.getText().endsWith('\n'))
+    text = '\n' + text;
+  return [TextEdit.insert(end, text)];
+}
+
+// Inserts |stubs| as inline functions at the end of the header |document|,
+// but inside of its include guard.
+export function makeInlineEdits(
+    document: TextDocument, stubs: string[]): TextEdit[] {
+  let inlined = stubs.map(stub => stub.replace(/^(\s*)/, '$1inline '));
+  for (let line = document.lineCount - 1; line >= 0; --line) {
+    let text = document.lineAt(line).text.trim();
+    if (!text)
+      continue;
+    if (!text.startsWith('#endif'))
+      break;
+    return [TextEdit.insert(new Position(line, 0), inlined.join('') + '\n')];
+  }
+  return makeAppendEdits(document, inlined);
+}
+
+// Returns the contents of |document| after applying |edits|.
+export function applyEditsToText(
+    document: TextDocument|undefined, edits: TextEdit[]): string {
+  if (!document)
+    return edits.map(e => e.newText).join('');
+  let text = document.getText();
+  for (let [offset, edit] of getInsertionOffsets(document, edits).reverse()) {
+    let length = document.offsetAt(edit.range.end) -
+        document.offsetAt(edit.range.start);
+    text = text.substr(0, offset) + edit.newText +
+        text.substr(offset + length);
+  }
+  return text;
+}
+
+// Returns |edits| sorted by position, each with the offset of its new text in
+// the document after every edit was applied.
+function getInsertionOffsets(
+    document: TextDocument, edits: TextEdit[]): Array<[number, TextEdit]> {
+  let sorted = edits.slice().sort(
+      (a, b) => a.range.start.compareTo(b.range.start));
+  let shift = 0;
+  return sorted.map((edit): [number, TextEdit] => {
+    let start = document.offsetAt(edit.range.start);
+    let end = document.offsetAt(edit.range.end);
+    let offset = start + shift;
+    shift += edit.newText.length - (end - start);
+    return [offset, edit];
+  });
+}
+
+// Returns the offsets just inside of the body of every function defined in
+// |text|, ie, after the '{' of every top level block.
+function findBodies(text: string): number[] {
+  let result: number[] = [];
+  let depth = 0;
+  for (let i = 0; i < text.length; ++i) {
+    if (text[i] == '{') {
+      if (depth == 0)
+        result.push(i + 1);
+      ++depth;
+    } else if (text[i] == '}' && depth > 0) {
+      --depth;
+    }
+  }
+  return result;
+}
+
+// Returns the offsets of the generated bodies in |document| once |edits| were
+// applied to it.
+export function findGeneratedBodies(
+    document: TextDocument|undefined, edits: TextEdit[]): number[] {
+  if (!document)
+    return findBodies(edits.map(e => e.newText).join(''));
+  let result: number[] = [];
+  for (let [offset, edit] of getInsertionOffsets(document, edits))
+    result = result.concat(findBodies(edit.newText).map(o => offset + o));
+  return result;
+}
+
+// Serves the proposed contents of a file for the diff preview.
+export class PreviewContentProvider implements TextDocumentContentProvider {
+  static readonly scheme = 'cquery-preview';
+
+  private contents = new Map<string, string>();
+  private onDidChangeEmitter = new EventEmitter<Uri>();
+  readonly onDidChange = this.onDidChangeEmitter.event;
+
+  // Returns a uri which shows |text| for |file|. |side| tells apart both
+  // sides of a diff which are served by the provider.
+  set(file: string, side: string, text: string): Uri {
+    let uri = Uri.file(file).with(
+        {scheme: PreviewContentProvider.scheme, query: side});
+    this.contents.set(uri.toString(), text);
+    this.onDidChangeEmitter.fire(uri);
+    return uri;
+  }
+
+  provideTextDocumentContent(uri: Uri): string {
+    return this.contents.get(uri.toString()) || '';
+  }
+}
+
+// Moves the cursor through the bodies of generated functions. Offsets are
+// updated as the user edits the document, ie, fills in a body.
+export class StubNavigator implements Disposable {
+  private document: TextDocument|undefined;
+  private offsets: number[] = [];
+  private index = 0;
+  private subscription: Disposable;
+
+  constructor() {
+    this.subscription = workspace.onDidChangeTextDocument(e => {
+      if (e.document !== this.document)
+        return;
+      for (let change of e.contentChanges) {
+        let delta = change.text.length - change.rangeLength;
+        this.offsets = this.offsets.map(
+            offset => offset > change.rangeOffset ? offset + delta : offset);
+      }
+    });
+  }
+
+  get remaining(): number {
+    return this.offsets.length - this.index;
+  }
+
+  // Starts over with the bodies at |offsets| in |editor| and moves to the
+  // first one.
+  start(editor: TextEditor, offsets: number[]) {
+    this.document = editor.document;
+    this.offsets = offsets;
+    this.index = 0;
+    this.next();
+  }
+
+  // Moves to the next body. Returns false if there is none.
+  next(): boolean {
+    if (!this.document || this.remaining == 0)
+      return false;
+    let position = this.document.positionAt(this.offsets[this.index++]);
+    let editor =
+        window.visibleTextEditors.find(e => e.document === this.document);
+    if (!editor) {
+      window.showTextDocument(this.document).then(
+          e => this.moveTo(e, position));
+    } else {
+      this.moveTo(editor, position);
+    }
+    return true;
+  }
+
+  private moveTo(editor: TextEditor, position: Position) {
+    editor.selection = new Selection(position, position);
+    editor.revealRange(
+        new Range(position, position), TextEditorRevealType.InCenter);
+  }
+
+  dispose() {
+    this.subscription.dispose();
+  }
+}
@@ -1,9 +1,9 @@
-import { Event, EventEmitter, Location, TreeDataProvider, TreeItem, TreeItemCollapsibleState } from 'vscode';
+import { Event, EventEmitter, Location, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri } from 'vscode';
 import { LanguageClient } from 'vscode-languageclient/lib/main';
 import { parseUri } from './extension';
 
 
-enum CallType {
+export enum CallType {
   Normal = 0,
   Base = 1,
   Derived = 2,
@@ -20,15 +20,41 @@ export class CallHierarchyNode {
   // and is incomplete - we need to send a new request to expand it.
   numChildren: number
   children: CallHierarchyNode[]
+
+  // If true and children need to be expanded callees will be requested,
+  // otherwise callers will be.
+  _isCallee: boolean
+  static setIsCallee(node: CallHierarchyNode, value: boolean) {
+    node._isCallee = value;
+    node.children.map(c => CallHierarchyNode.setIsCallee(c, value));
+  }
+}
+
+export class CallHierarchyFilter {
+  normal = true
+  base = true
+  derived = true
 }
 
 export class CallHierarchyProvider implements TreeDataProvider<CallHierarchyNode> {
   root: CallHierarchyNode;
 
+  // The server always returns normal calls, so they are removed on the client.
+  // Base and derived calls are only requested when they are enabled.
+  filter = new CallHierarchyFilter();
+
+  // Document which |root| was requested from. Clients are replaced when they
+  // are restarted, so the one serving it is looked up for every request.
+  documentUri: Uri;
+
   constructor(
-    readonly languageClient: LanguageClient, readonly derivedDark: string,
-    readonly derivedLight: string, readonly baseDark: string,
-    readonly baseLight: string) { }
+    readonly resolveClient: (uri: Uri) => LanguageClient | undefined,
+    readonly derivedDark: string, readonly derivedLight: string,
+    readonly baseDark: string, readonly baseLight: string) { }
+
+  get languageClient(): LanguageClient | undefined {
+    return this.documentUri && this.resolveClient(this.documentUri);
+  }
 
   readonly onDidChangeEmitter: EventEmitter<any> = new EventEmitter<any>();
   readonly onDidChangeTreeData: Event<any> = this.onDidChangeEmitter.event;
@@ -72,6 +98,25 @@ export class CallHierarchyProvider implements TreeDataProvider<CallHierarchyNode
     };
   }
 
+  requestedCallTypes(): number {
+    let callType = 0;
+    if (this.filter.base)
+      callType |= CallType.Base;
+    if (this.filter.derived)
+      callType |= CallType.Derived;
+    return callType;
+  }
+
+  // Removes children hidden by |filter| from |node| and any expanded children.
+  applyFilter(node: CallHierarchyNode) {
+    if (node.numChildren != node.children.length)
+      return;
+    if (!this.filter.normal)
+      node.children = node.children.filter(c => c.callType != CallType.Normal);
+    node.numChildren = node.children.length;
+    node.children.map(c => this.applyFilter(c));
+  }
+
   getChildren(element?: CallHierarchyNode): CallHierarchyNode[] | Thenable<CallHierarchyNode[]> {
     if (!this.root)
       return [];
@@ -79,18 +124,24 @@ export class CallHierarchyProvider implements TreeDataProvider<CallHierarchyNode
       return [this.root];
     if (element.numChildren == element.children.length)
       return element.children;
+    let languageClient = this.languageClient;
+    if (!languageClient)
+      return [];
 
-    return this.languageClient
+    return languageClient
       .sendRequest('$cquery/callHierarchy', {
         id: element.id,
-        callee: false,
-        callType: CallType.All,
+        callee: element._isCallee,
+        callType: this.requestedCallTypes(),
         detailedName: false,
         levels: 1
       })
       .then((result: CallHierarchyNode) => {
         element.children = result.children;
-        return result.children;
+        element.numChildren = result.children.length;
+        result.children.map(c => CallHierarchyNode.setIsCallee(c, element._isCallee));
+        this.applyFilter(element);
+        return element.children;
       });
   }
 }
@@ -0,0 +1,160 @@
+import {Disposable, Uri, window, workspace, WorkspaceFolder} from 'vscode';
+import {LanguageClient} from 'vscode-languageclient/lib/main';
+
+// A started language client and the configuration it was started with.
+export class ManagedClient {
+  // Disposed when the client is stopped, ie, listeners registered on the
+  // client.
+  readonly disposables: Disposable[] = [];
+
+  constructor(
+      readonly folder: WorkspaceFolder|undefined,
+      readonly client: LanguageClient, readonly config: any) {}
+}
+
+export function getFolderKey(folder: WorkspaceFolder|undefined) {
+  return folder ? folder.uri.toString() : '';
+}
+
+// Returns every workspace folder, or [undefined] if no folder is open.
+export function getFolders(): Array<WorkspaceFolder|undefined> {
+  let folders = workspace.workspaceFolders;
+  if (!folders || folders.length == 0)
+    return [undefined];
+  return folders;
+}
+
+// Owns the language clients; there is one per workspace folder, or a single
+// one if no folder is open. Clients are replaced when they are restarted, so
+// features must not hold on to a client. Instead they look up the current one
+// and register their notification handlers with |onDidStartClient|.
+export class ClientManager implements Disposable {
+  private clients = new Map<string, ManagedClient>();
+  private startedHandlers: Array<(managed: ManagedClient) => void> = [];
+  // The last pending start or stop of each folder; the next one is chained on
+  // it so they never overlap.
+  private pending = new Map<string, Thenable<void>>();
+
+  // |createClient| returns undefined if the client cannot be started, ie,
+  // because of invalid settings.
+  constructor(
+      private createClient: (folder: WorkspaceFolder|undefined) =>
+          ManagedClient | undefined) {}
+
+  // Invokes |handler| with every client which is started, including restarts,
+  // and with the clients which are already running.
+  onDidStartClient(handler: (managed: ManagedClient) => void) {
+    this.startedHandlers.push(handler);
+    this.clients.forEach(handler);
+  }
+
+  get(folder: WorkspaceFolder|undefined): ManagedClient|undefined {
+    return this.clients.get(getFolderKey(folder));
+  }
+
+  // Returns the client which owns |uri|. Documents outside of every workspace
+  // folder are only served when there is a single client.
+  getClientForUri(uri: Uri): LanguageClient|undefined {
+    let folder = workspace.getWorkspaceFolder(uri);
+    let managed = folder && this.clients.get(getFolderKey(folder));
+    if (!managed && this.clients.size == 1)
+      managed = this.clients.values().next().value;
+    return managed && managed.client;
+  }
+
+  // Returns the folder of the active document, or the first folder if there is
+  // no active document.
+  getActiveFolder(): WorkspaceFolder|undefined {
+    let editor = window.activeTextEditor;
+    let folder = editor && workspace.getWorkspaceFolder(editor.document.uri);
+    return folder || getFolders()[0];
+  }
+
+  // Returns the client for the active document, or the first client if there
+  // is no active document.
+  getActiveClient(): LanguageClient|undefined {
+    let editor = window.activeTextEditor;
+    if (editor)
+      return this.getClientForUri(editor.document.uri);
+    let managed: ManagedClient = this.clients.values().next().value;
+    return managed && managed.client;
+  }
+
+  // Starts the client for |folder|, replacing the running one if there is
+  // one.
+  start(folder: WorkspaceFolder|undefined): Thenable<void> {
+    return this.enqueue(
+        folder, () => this.stopNow(folder).then(() => this.startNow(folder)));
+  }
+
+  // Resolves once the client has shut down.
+  stop(folder: WorkspaceFolder|undefined): Thenable<void> {
+    return this.enqueue(folder, () => this.stopNow(folder));
+  }
+
+  // Starts the new client once the old one has shut down, so two cquery
+  // processes never share the cache directory.
+  restart(folder: WorkspaceFolder|undefined): Thenable<void> {
+    return this.start(folder);
+  }
+
+  // Runs |action| while the client of |folder| is stopped, and starts it again
+  // afterwards if it was running. Restarts requested in the meantime wait
+  // until the client has been started again.
+  runStopped(folder: WorkspaceFolder|undefined, action: () => Thenable<void>):
+      Thenable<void> {
+    return this.enqueue(folder, () => {
+      let wasRunning = !!this.get(folder);
+      let restart = () => wasRunning ? this.startNow(folder) : undefined;
+      return this.stopNow(folder).then(action).then(restart, err => {
+        restart();
+        throw err;
+      });
+    });
+  }
+
+  // Runs |operation| once the previous operations on the client of |folder|
+  // have finished, even if they failed.
+  private enqueue(
+      folder: WorkspaceFolder|undefined,
+      operation: () => Thenable<void>|void): Thenable<void> {
+    let key = getFolderKey(folder);
+    let previous = this.pending.get(key) || Promise.resolve();
+    let result = previous.then(operation);
+    let settled = result.then(undefined, () => {});
+    this.pending.set(key, settled);
+    settled.then(() => {
+      if (this.pending.get(key) == settled)
+        this.pending.delete(key);
+    });
+    return result;
+  }
+
+  private startNow(folder: WorkspaceFolder|undefined) {
+    let managed = this.createClient(folder);
+    if (!managed)
+      return;
+    this.clients.set(getFolderKey(folder), managed);
+    // Disposing the result of start() stops the client.
+    managed.disposables.push(managed.client.start());
+    for (let handler of this.startedHandlers)
+      handler(managed);
+  }
+
+  private stopNow(folder: WorkspaceFolder|undefined): Thenable<void> {
+    let key = getFolderKey(folder);
+    let managed = this.clients.get(key);
+    if (!managed)
+      return Promise.resolve();
+    this.clients.delete(key);
+    let stopped = managed.client.needsStop() ? managed.client.stop() :
+                                               Promise.resolve();
+    managed.disposables.forEach(d => d.dispose());
+    return stopped;
+  }
+
+  dispose() {
+    for (let managed of Array.from(this.clients.values()))
+      this.stopNow(managed.folder);
+  }
+}
@@ -0,0 +1,46 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {RelativePattern, Uri, workspace, WorkspaceFolder} from 'vscode';
+
+import {resolveVariables} from './variableResolver';
+
+export const kCompilationDatabaseName = 'compile_commands.json';
+
+// Returns the directory cquery loads compile_commands.json from for |folder|,
+// ie, |cquery.misc.compilationDatabaseDirectory| or the folder itself.
+export function getCompilationDatabaseDirectory(
+    folder: WorkspaceFolder|undefined): string|undefined {
+  let root = folder ? folder.uri.fsPath : workspace.rootPath;
+  let directory = resolveVariables(
+      workspace.getConfiguration('cquery', folder && folder.uri)
+          .get<string>('misc.compilationDatabaseDirectory', ''),
+      folder);
+  if (!directory)
+    return root;
+  if (root && !path.isAbsolute(directory))
+    return path.join(root, directory);
+  return directory;
+}
+
+// Returns true if cquery has a compilation database or a .cquery file to load
+// the project for |folder| from.
+export function hasCompilationDatabase(folder: WorkspaceFolder|undefined):
+    boolean {
+  let directory = getCompilationDatabaseDirectory(folder);
+  if (directory &&
+      fs.existsSync(path.join(directory, kCompilationDatabaseName)))
+    return true;
+  let root = folder ? folder.uri.fsPath : workspace.rootPath;
+  return !!root && fs.existsSync(path.join(root, '.cquery'));
+}
+
+// Finds every compilation database inside of |folder|, ie, in different
+// build directories.
+export function findCompilationDatabases(folder: WorkspaceFolder):
+    Thenable<Uri[]> {
+  return workspace
+      .findFiles(
+          new RelativePattern(folder, `**/${kCompilationDatabaseName}`),
+          '**/node_modules/**', 50)
+      .then(uris => uris.sort((a, b) => a.fsPath.localeCompare(b.fsPath)));
+}
@@ -1,26 +1,92 @@
-import {window, WorkspaceConfiguration} from 'vscode';
+import {commands, window, workspace, WorkspaceFolder} from 'vscode';
 import {Message} from 'vscode-jsonrpc';
 import {CloseAction, ErrorAction, ErrorHandler} from 'vscode-languageclient';
 
+import {ServerLog} from './serverLog';
+
+// Crashes older than this do not count against the restart budget.
+const kCrashWindowMs = 5 * 60 * 1000;
+const kMaxRestarts = 5;
+const kInitialRestartDelayMs = 1000;
+// Connection errors tolerated before the connection is shut down, which then
+// counts as a crash.
+const kMaxConnectionErrors = 3;
+
+// Restarts cquery after a crash, waiting twice as long after every crash in
+// |kCrashWindowMs|. Gives up once more than |kMaxRestarts| crashes happened in
+// that window. One handler is shared by every client started for a folder so
+// the budget survives restarts.
 export class CqueryErrorHandler implements ErrorHandler {
-  constructor(readonly config: WorkspaceConfiguration) {}
+  // True if cquery crashed too often and is no longer restarted.
+  gaveUp = false;
+  private restartTimer: NodeJS.Timer;
+
+  constructor(
+      readonly folder: WorkspaceFolder|undefined, readonly log: ServerLog,
+      private restart: () => void, private onCrashStateChanged: () => void) {}
 
   error(error: Error, message: Message, count: number): ErrorAction {
+    this.log.appendStderr(`[cquery extension] Connection error: ${error}\n`);
+    if (count >= kMaxConnectionErrors)
+      return ErrorAction.Shutdown;
     return ErrorAction.Continue;
   }
 
   closed(): CloseAction {
-    const notifyOnCrash = this.config.get('launch.notifyOnCrash');
-    const restart = this.config.get('launch.autoRestart');
+    const config =
+        workspace.getConfiguration('cquery', this.folder && this.folder.uri);
+    const notifyOnCrash = config.get('launch.notifyOnCrash');
+    const autoRestart = config.get('launch.autoRestart');
+
+    let now = new Date();
+    this.log.crashes.push(now);
+    let recentCrashes = this.log.crashes.filter(
+        crash => now.getTime() - crash.getTime() < kCrashWindowMs);
+
+    if (!autoRestart) {
+      if (notifyOnCrash)
+        window.showInformationMessage(
+            'cquery has crashed; it has not been restarted.');
+      return CloseAction.DoNotRestart;
+    }
 
+    if (recentCrashes.length > kMaxRestarts) {
+      this.gaveUp = true;
+      this.onCrashStateChanged();
+      const kOpenReport = 'Open Crash Report';
+      window
+          .showErrorMessage(
+              `cquery crashed ${recentCrashes.length} times in the last ` +
+                  `${kCrashWindowMs / 60000} minutes; it will not be ` +
+                  'restarted automatically.',
+              kOpenReport)
+          .then(selected => {
+            if (selected == kOpenReport)
+              commands.executeCommand('cquery.openCrashReport', this.folder);
+          });
+      return CloseAction.DoNotRestart;
+    }
+
+    let delay =
+        kInitialRestartDelayMs * Math.pow(2, recentCrashes.length - 1);
     if (notifyOnCrash) {
       window.showInformationMessage(
-          restart ? 'cquery has crashed; it has been restarted.' :
-                    'cquery has crashed; it has not been restarted.');
+          `cquery has crashed; restarting it in ${delay / 1000}s.`);
     }
-
-    if (restart)
-      return CloseAction.Restart;
+    // The client is restarted with a fresh configuration instead of letting
+    // the language client restart it immediately.
+    clearTimeout(this.restartTimer);
+    this.restartTimer = setTimeout(this.restart, delay);
     return CloseAction.DoNotRestart;
   }
+
+  // Forgets about previous crashes, ie, after a manual restart.
+  reset() {
+    clearTimeout(this.restartTimer);
+    this.log.crashes = [];
+    if (this.gaveUp) {
+      this.gaveUp = false;
+      this.onCrashStateChanged();
+    }
+  }
 }
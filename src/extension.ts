@@ -1,15 +1,34 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
 import * as path from 'path';
-import {CodeLens, commands, DecorationOptions, DecorationRangeBehavior, DecorationRenderOptions, ExtensionContext, OverviewRulerLane, Position, Progress, ProgressLocation, ProviderResult, QuickPickItem, Range, StatusBarAlignment, TextDocument, TextEditor, TextEditorDecorationType, ThemeColor, Uri, window, workspace} from 'vscode';
+import {CodeLens, commands, ConfigurationTarget, DecorationOptions, DecorationRangeBehavior, DecorationRenderOptions, Disposable, ExtensionContext, FoldingRange, FoldingRangeKind, Hover, languages, MarkdownString, OverviewRulerLane, Position, Progress, ProgressLocation, ProviderResult, QuickPickItem, Range, RelativePattern, Selection, StatusBarAlignment, TextDocument, TextEdit, TextEditor, TextEditorDecorationType, TextEditorRevealType, ThemeColor, Uri, window, workspace, WorkspaceEdit, WorkspaceFolder} from 'vscode';
 import {Message} from 'vscode-jsonrpc';
-import {CancellationToken, LanguageClient, LanguageClientOptions, Middleware, ProvideCodeLensesSignature, RevealOutputChannelOn, ServerOptions} from 'vscode-languageclient/lib/main';
+import {CancellationToken, DocumentSelector, LanguageClient, LanguageClientOptions, Middleware, ProvideCodeLensesSignature, RevealOutputChannelOn, ServerOptions, State} from 'vscode-languageclient/lib/main';
+import {MessageTransports} from 'vscode-languageclient/lib/client';
+import {createConverter as createProtocolConverter} from 'vscode-languageclient/lib/protocolConverter';
 import * as ls from 'vscode-languageserver-types';
 
-import {CallHierarchyNode, CallHierarchyProvider} from './callHierarchy';
+import {applyEditsToText, findGeneratedBodies, findPairedSourceFile, makeAppendEdits, makeInlineEdits, PreviewContentProvider, StubNavigator} from './autoImplement';
+import {CallHierarchyFilter, CallHierarchyNode, CallHierarchyProvider, CallType} from './callHierarchy';
+import {ClientManager, getFolderKey, getFolders, ManagedClient} from './clientManager';
+import {findCompilationDatabases, getCompilationDatabaseDirectory, hasCompilationDatabase, kCompilationDatabaseName} from './compilationDatabase';
 import {CqueryErrorHandler} from './cqueryErrorHandler';
+import {buildHierarchyGraph, callHierarchyAdapter, ExportFormat, formatHierarchyGraph, HierarchyGraph, inheritanceHierarchyAdapter} from './hierarchyExport';
+import {getActiveHighlightingPreset, HighlightingPreset, loadHighlightingPresets, readHighlightingPreset} from './highlightingPresets';
+import {formatBytes, getCacheEntryPaths, getDirectoryStats, moveDirectory, removeRecursively} from './indexCache';
+import {IncludeCandidate, rankIncludeCandidates} from './includeCandidates';
+import {getTotalJobs, IndexingDashboard, ProgressHistory} from './indexingDashboard';
 import {InheritanceHierarchyNode, InheritanceHierarchyProvider} from './inheritanceHierarchy';
+import {hasRoles, kReferenceRoleFilters, ReferenceLocation, ReferenceNode, ReferenceQuery, ReferencesProvider, toSavedHistory} from './referencesView';
+import {describeSemanticSymbol, findHighlightingRule, findSemanticSymbolAt, getCategoryStyle, kHighlightingCategories, makeHighlightingRules, PublishSemanticHighlightingArgs, SemanticSymbol, SymbolRole} from './semanticHighlighting';
+import {describeSpawnError, findServerBinaries, getServerVersion, hasExplicitLaunchCommand, isServerVersionSupported, isWorkspaceBinary, kMinimumServerVersion} from './serverDiscovery';
+import {formatCrashReport, makeLoggingTransports, ServerLog} from './serverLog';
+import {resolveVariables} from './variableResolver';
 import {jumpToUriAtPosition} from './vscodeUtils';
+import {applyWorkspaceEdit, asWorkspaceEdit, removeOverlappingEdits} from './workspaceEdits';
 
-type Nullable<T> = T|null;
+// Languages handled by cquery.
+const kLanguageIds = ['c', 'cpp', 'objective-c', 'objective-cpp'];
 
 export function parseUri(u): Uri {
   return Uri.parse(u);
@@ -19,125 +38,25 @@ function setContext(name, value) {
   commands.executeCommand('setContext', name, value);
 }
 
-enum SymbolKind {
-  // lsSymbolKind
-  Unknown = 0,
-  File,
-  Module,
-  Namespace,
-  Package,
-
-  Class = 5,
-  Method,
-  Property,
-  Field,
-  Constructor,
-
-  Enum = 10,
-  Interface,
-  Function,
-  Variable,
-  Constant,
-
-  String = 15,
-  Number,
-  Boolean,
-  Array,
-  Object,
-
-  Key = 20,
-  Null,
-  EnumMember,
-  Struct,
-  Event,
-
-  Operator = 25,
-  TypeParameter,
-
-  // cquery extensions
-  TypeAlias = 252,
-  Parameter = 253,
-  StaticMethod = 254,
-  Macro = 255
-}
-enum StorageClass {
-  Invalid,
-  None,
-  Extern,
-  Static,
-  PrivateExtern,
-  Auto,
-  Register
-}
-namespace SymbolRole {
-  export const Declaration : number = 1 << 0;
-	export const Definition : number = 1 << 1;
-	export const Reference = 1 << 2;
-	export const Read = 1 << 3;
-	export const Write = 1 << 4;
-	export const Call = 1 << 5;
-	export const Dynamic = 1 << 6;
-	export const Address = 1 << 7;
-	export const Implicit = 1 << 8;
-}
-
-class SemanticSymbol {
-  constructor(
-      readonly stableId: number, readonly parentKind: SymbolKind,
-      readonly kind: SymbolKind, readonly isTypeMember: boolean,
-      readonly storage: StorageClass, readonly role: number,
-      readonly ranges: Array<Range>) {}
-}
-
-function getClientConfig(context: ExtensionContext) {
+function getClientConfig(
+    context: ExtensionContext, folder: WorkspaceFolder|undefined) {
   const kCacheDirPrefName = 'cacheDirectory';
 
   function hasAnySemanticHighlighting() {
-    let options = [
-      'cquery.highlighting.enabled.types',
-      'cquery.highlighting.enabled.freeStandingFunctions',
-      'cquery.highlighting.enabled.freeStandingFunctionDeclarations',
-      'cquery.highlighting.enabled.memberFunctions',
-      'cquery.highlighting.enabled.memberFunctionDeclarations',
-      'cquery.highlighting.enabled.freeStandingVariables',
-      'cquery.highlighting.enabled.memberVariables',
-      'cquery.highlighting.enabled.namespaces',
-      'cquery.highlighting.enabled.macros',
-      'cquery.highlighting.enabled.enums',
-      'cquery.highlighting.enabled.typeAliases',
-      'cquery.highlighting.enabled.enumConstants',
-      'cquery.highlighting.enabled.staticMemberFunctions',
-      'cquery.highlighting.enabled.staticMemberFunctionDeclarations',
-      'cquery.highlighting.enabled.parameters',
-      'cquery.highlighting.enabled.templateParameters',
-      'cquery.highlighting.enabled.staticMemberVariables',
-      'cquery.highlighting.enabled.globalVariables'];
-    let config = workspace.getConfiguration();
-    for (let name of options) {
-      if (config.get(name, false))
+    let config = workspace.getConfiguration('cquery');
+    if (config.get<any[]>('highlighting.rules', []).length > 0 ||
+        config.get('highlighting.occurrences', false))
+      return true;
+    let preset = getActiveHighlightingPreset(context.extensionPath);
+    if (preset && preset.rules && preset.rules.length > 0)
+      return true;
+    for (let [name, _] of kHighlightingCategories) {
+      if (getCategoryStyle(name, preset).enabled)
         return true;
     }
     return false;
   }
 
-  function resolveVariablesInString(value: string) {
-    return value.replace('${workspaceFolder}', workspace.rootPath);
-  }
-
-  function resloveVariablesInArray(value: any[]) {
-    return value.map(v => resolveVariables(v));
-  }
-
-  function resolveVariables(value: any) {
-    if (typeof(value) == 'string') {
-      return resolveVariablesInString(value);
-    }
-    if (Array.isArray(value)) {
-        return resloveVariablesInArray(value);
-    }
-    return value
-  }
-
   // Read prefs; this map goes from `cquery/js name` => `vscode prefs name`.
   let configMapping = [
     ['launchCommand', 'launch.command'],
@@ -169,6 +88,7 @@ function getClientConfig(context: ExtensionContext) {
     ['emitInactiveRegions', 'misc.showInactiveRegions'],
     ['discoverSystemIncludes','misc.discoverSystemIncludes'],
     ['formatting.enabled', 'formatting.enabled'],
+    ['xref.container', 'references.showContainer'],
   ];
   let clientConfig = {
     launchCommand: '',
@@ -180,7 +100,7 @@ function getClientConfig(context: ExtensionContext) {
       sort: false,
     },
   };
-  let config = workspace.getConfiguration('cquery');
+  let config = workspace.getConfiguration('cquery', folder && folder.uri);
   for (let prop of configMapping) {
     let value = config.get(prop[1]);
     if (value != null) {
@@ -192,7 +112,8 @@ function getClientConfig(context: ExtensionContext) {
         }
         subconfig = subconfig[subprop];
       }
-      subconfig[subprops[subprops.length - 1]] = resolveVariables(value);
+      subconfig[subprops[subprops.length - 1]] =
+          resolveVariables(value, folder);
     }
   }
 
@@ -216,8 +137,11 @@ function getClientConfig(context: ExtensionContext) {
     // the project since if the user has an SSD they most likely have their
     // source files on the SSD as well.
     let cacheDir = '${workspaceFolder}/.vscode/cquery_cached_index/';
-    clientConfig.cacheDirectory = resolveVariables(cacheDir);
-    config.update(kCacheDirPrefName, cacheDir, false /*global*/);
+    clientConfig.cacheDirectory = resolveVariables(cacheDir, folder);
+    config.update(
+        kCacheDirPrefName, cacheDir,
+        folder ? ConfigurationTarget.WorkspaceFolder :
+                 ConfigurationTarget.Workspace);
   }
 
   return clientConfig;
@@ -230,59 +154,69 @@ export function activate(context: ExtensionContext) {
   // Setup configuration, start server.
   /////////////////////////////////////
 
-  // Load configuration and start the client.
-  let getLanguageClient = (() => {
-    let clientConfig = getClientConfig(context);
-    if (!clientConfig)
-      return;
-    // Notify the user that if they change a cquery setting they need to restart
-    // vscode.
-    context.subscriptions.push(workspace.onDidChangeConfiguration(() => {
-      let newConfig = getClientConfig(context);
+  // Clients are created by |createClient| below.
+  let clientManager = new ClientManager(createClient);
+  context.subscriptions.push(clientManager);
+  // Crash handling of every folder. Kept across restarts.
+  let errorHandlers = new Map<string, CqueryErrorHandler>();
+  // Invoked when cquery is given up on after crashing too often, or restarted
+  // after that.
+  let crashStateChangedHandlers: Array<() => void> = [];
+
+  // Asks the server to publish semantic highlighting and inactive regions for
+  // |editors| again.
+  function sendTextDocumentDidView(editors: TextEditor[]) {
+    for (let editor of editors) {
+      let languageClient = clientManager.getClientForUri(editor.document.uri);
+      if (!languageClient)
+        continue;
+      languageClient.sendNotification(
+          '$cquery/textDocumentDidView',
+          {textDocumentUri: editor.document.uri.toString()});
+    }
+  }
+
+  // Settings which are sent to the server only apply after the client is
+  // restarted, so offer to restart the clients whose settings changed.
+  // Settings only used by the extension are applied where they are read.
+  context.subscriptions.push(workspace.onDidChangeConfiguration(() => {
+    let changedFolders: Array<WorkspaceFolder|undefined> = [];
+    let changedKey: string;
+    for (let folder of getFolders()) {
+      // Stopped clients pick up the new settings when they are started.
+      let managed = clientManager.get(folder);
+      if (!managed)
+        continue;
+      let clientConfig = managed.config;
+      let newConfig = getClientConfig(context, folder);
       for (let key in newConfig) {
         if (!newConfig.hasOwnProperty(key))
           continue;
 
-        if (!clientConfig ||
-            JSON.stringify(clientConfig[key]) !=
-                JSON.stringify(newConfig[key])) {
-          const kReload = 'Reload'
-          const message = `Please reload to apply the "cquery.${
-              key}" configuration change.`;
-
-          window.showInformationMessage(message, kReload).then(selected => {
-            if (selected == kReload)
-              commands.executeCommand('workbench.action.reloadWindow');
-          });
+        if (JSON.stringify(clientConfig[key]) !=
+            JSON.stringify(newConfig[key])) {
+          changedFolders.push(folder);
+          changedKey = key;
           break;
         }
       }
-    }));
-
-    let args = ['--language-server'].concat(clientConfig['launchArgs']);
-
-    let env: any = {};
-    let kToForward = [
-      'ProgramData',
-      'PATH',
-      'LD_LIBRARY_PATH',
-    ];
-    for (let e of kToForward)
-      env[e] = process.env[e];
-
-    // env.LIBCLANG_LOGGING = '1';
-    // env.MALLOC_CHECK_ = '2';
-
-    let serverOptions: ServerOptions = {
-      command: clientConfig.launchCommand,
-      args: args,
-      options: {env: env}
-    };
-    console.log(
-        `Starting ${serverOptions.command} in ${serverOptions.options.cwd}`);
+    }
+    if (changedFolders.length == 0)
+      return;
 
+    const kRestart = 'Restart'
+    const message = `Please restart cquery to apply the "cquery.${
+        changedKey}" configuration change.`;
+    window.showInformationMessage(message, kRestart).then(selected => {
+      if (selected != kRestart)
+        return;
+      for (let folder of changedFolders)
+        manuallyRestartClient(folder);
+    });
+  }));
 
-    // Inline code lens.
+  // Inline code lens.
+  let codeLensDecoration = (() => {
     let decorationOpts: DecorationRenderOptions = {
       after: {
         fontStyle: 'italic',
@@ -290,44 +224,206 @@ export function activate(context: ExtensionContext) {
       },
       rangeBehavior: DecorationRangeBehavior.ClosedClosed,
     };
+    return window.createTextEditorDecorationType(decorationOpts);
+  })();
 
-    let codeLensDecoration = window.createTextEditorDecorationType(
-      decorationOpts);
+  function displayCodeLens(document: TextDocument, allCodeLens: CodeLens[]) {
+    for (let editor of window.visibleTextEditors) {
+      if (editor.document != document)
+        continue;
 
-    function displayCodeLens(document: TextDocument, allCodeLens: CodeLens[]) {
-      for (let editor of window.visibleTextEditors) {
-        if (editor.document != document)
-          continue;
+      let opts: DecorationOptions[] = [];
 
-        let opts: DecorationOptions[] = [];
+      for (let codeLens of allCodeLens) {
+        // FIXME: show a real warning or disable on-the-side code lens.
+        if (!codeLens.isResolved)
+          console.error('Code lens is not resolved');
 
-        for (let codeLens of allCodeLens) {
-          // FIXME: show a real warning or disable on-the-side code lens.
-          if (!codeLens.isResolved)
-            console.error('Code lens is not resolved');
+        // Default to after the content.
+        let position = codeLens.range.end;
 
-          // Default to after the content.
-          let position = codeLens.range.end;
+        // If multiline push to the end of the first line - works better for
+        // functions.
+        if (codeLens.range.start.line != codeLens.range.end.line)
+          position = new Position(codeLens.range.start.line, 1000000);
 
-          // If multiline push to the end of the first line - works better for
-          // functions.
-          if (codeLens.range.start.line != codeLens.range.end.line)
-            position = new Position(codeLens.range.start.line, 1000000);
+        let range = new Range(position, position);
+        let opt: DecorationOptions = {
+          range: range,
+          renderOptions:
+              {after: {contentText: ' ' + codeLens.command.title + ' '}}
+        };
 
-          let range = new Range(position, position);
-          let opt: DecorationOptions = {
-            range: range,
-            renderOptions:
-                {after: {contentText: ' ' + codeLens.command.title + ' '}}
-          };
+        opts.push(opt);
+      }
 
-          opts.push(opt);
-        }
+      editor.setDecorations(codeLensDecoration, opts);
+    }
+  }
+
+  context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+    if (!e.affectsConfiguration('cquery.codeLens.renderInline'))
+      return;
+    // Requesting the code lens draws them inline again if enabled.
+    for (let editor of window.visibleTextEditors) {
+      editor.setDecorations(codeLensDecoration, []);
+      if (kLanguageIds.indexOf(editor.document.languageId) >= 0) {
+        commands.executeCommand(
+            'vscode.executeCodeLensProvider', editor.document.uri);
+      }
+    }
+  }));
+
+  commands.registerCommand('cquery.toggleInlineCodeLens', () => {
+    let config = workspace.getConfiguration('cquery');
+    config.update(
+        'codeLens.renderInline', !config.get('codeLens.renderInline', false),
+        ConfigurationTarget.Global);
+  });
 
-        editor.setDecorations(codeLensDecoration, opts);
+  // Binaries chosen with cquery.selectServerBinary, keyed by folder.
+  const kChosenBinariesKey = 'cquery.launch.chosenBinaries';
+
+  // Lets the user pick one of |binaries| for |folder| and restarts its
+  // client with it.
+  function chooseServerBinary(
+      folder: WorkspaceFolder|undefined, binaries: string[]) {
+    // Binaries from the workspace are not run to find out their version
+    // before the user chose them.
+    let items = Promise.all(binaries.map((binary): Promise<QuickPickItem> => {
+      if (isWorkspaceBinary(binary, folder)) {
+        return Promise.resolve(
+            {label: binary, description: 'built in the workspace'});
       }
+      return getServerVersion(binary).then(
+          (version): QuickPickItem => ({
+            label: binary,
+            description: version ? `v${version}` : 'unknown version'
+          }));
+    }));
+    window.showQuickPick(items, {placeHolder: 'cquery binary to use'})
+        .then(selected => {
+          if (!selected)
+            return;
+          let chosen = context.workspaceState.get(kChosenBinariesKey, {});
+          chosen[getFolderKey(folder)] = selected.label;
+          context.workspaceState.update(kChosenBinariesKey, chosen)
+              .then(() => manuallyRestartClient(folder));
+        });
+  }
+
+  // Sets of binaries the user has already been told about. Clients are
+  // created again on every restart, so each set is only reported once.
+  let reportedBinarySets = new Set<string>();
+
+  // Returns the cquery binary to launch for |folder| if the user did not set
+  // cquery.launch.command; |defaultCommand| if none is found. Binaries built
+  // in the workspace are only launched if the user chose them.
+  function discoverServerBinary(
+      folder: WorkspaceFolder|undefined, defaultCommand: string): string {
+    let binaries = findServerBinaries(folder);
+    let chosen = context.workspaceState.get(
+        kChosenBinariesKey, {})[getFolderKey(folder)];
+    if (chosen && binaries.indexOf(chosen) >= 0)
+      return chosen;
+    let trusted = binaries.filter(binary => !isWorkspaceBinary(binary, folder));
+    let command = trusted.length > 0 ? trusted[0] : defaultCommand;
+
+    let binarySet = binaries.join('\n');
+    let hasWorkspaceBinaries = binaries.length > trusted.length;
+    if ((binaries.length > 1 || hasWorkspaceBinaries) &&
+        !reportedBinarySets.has(binarySet)) {
+      reportedBinarySets.add(binarySet);
+      const kChoose = 'Choose...';
+      let message = hasWorkspaceBinaries ?
+          `Found cquery built in the workspace; using ${command} unless ` +
+              'you choose it.' :
+          `Found ${binaries.length} cquery binaries; using ${command}.`;
+      window.showInformationMessage(message, kChoose).then(selected => {
+        if (selected == kChoose)
+          chooseServerBinary(folder, binaries);
+      });
+    }
+    return command;
+  }
+
+  // Binaries which have already been warned about.
+  let reportedOldBinaries = new Set<string>();
+
+  function checkServerVersion(command: string) {
+    getServerVersion(command).then(version => {
+      if (!version || isServerVersionSupported(version) ||
+          reportedOldBinaries.has(command))
+        return;
+      reportedOldBinaries.add(command);
+      window.showWarningMessage(
+          `cquery "${command}" is version ${version}, but the extension ` +
+          `requires v${kMinimumServerVersion} or newer. Some features may ` +
+          'not work; please update cquery.');
+    });
+  }
+
+  // Load configuration and create the client for |folder|.
+  function createClient(folder: WorkspaceFolder|undefined): ManagedClient|
+      undefined {
+    let clientConfig = getClientConfig(context, folder);
+    if (!clientConfig)
+      return undefined;
+
+    let args = ['--language-server'].concat(clientConfig['launchArgs']);
+
+    let env: any = {};
+    let kToForward = [
+      'ProgramData',
+      'PATH',
+      'LD_LIBRARY_PATH',
+    ];
+    for (let e of kToForward)
+      env[e] = process.env[e];
+
+    // env.LIBCLANG_LOGGING = '1';
+    // env.MALLOC_CHECK_ = '2';
+
+    let key = getFolderKey(folder);
+    let errorHandler = errorHandlers.get(key);
+    if (!errorHandler) {
+      errorHandler = new CqueryErrorHandler(
+          folder, new ServerLog(), () => clientManager.restart(folder),
+          () => crashStateChangedHandlers.forEach(handler => handler()));
+      errorHandlers.set(key, errorHandler);
     }
 
+    // Spawn cquery ourselves so its stderr and JSON-RPC traffic can be
+    // recorded for crash reports.
+    let command = clientConfig.launchCommand;
+    if (!hasExplicitLaunchCommand(folder))
+      command = discoverServerBinary(folder, command);
+    checkServerVersion(command);
+    // The running cquery process, if any.
+    let serverProcess: cp.ChildProcess|undefined;
+    let serverOptions: ServerOptions = () => {
+      console.log(`Starting ${command}`);
+      let cwd = folder ? folder.uri.fsPath : workspace.rootPath;
+      let spawned = cp.spawn(command, args, {cwd: cwd, env: env});
+      spawned.on('error', e => {
+        errorHandler.log.appendStderr(
+            `[cquery extension] Failed to run ${command}: ${e.message}\n`);
+      });
+      if (!spawned.pid) {
+        // The reason, ie, ENOENT, is only reported by the error event.
+        return new Promise<MessageTransports>(
+            (resolve, reject) => spawned.once('error', reject));
+      }
+      serverProcess = spawned;
+      spawned.on('exit', () => {
+        if (serverProcess == spawned)
+          serverProcess = undefined;
+      });
+      return Promise.resolve(makeLoggingTransports(
+          spawned, errorHandler.log, () => languageClient.outputChannel));
+    };
+
+
     function provideCodeLens(
         document: TextDocument, token: CancellationToken,
         next: ProvideCodeLensesSignature): ProviderResult<CodeLens[]> {
@@ -351,15 +447,33 @@ export function activate(context: ExtensionContext) {
           });
     };
 
+    // With multiple workspace folders every client only handles the documents
+    // inside of its own folder. With a single folder it also serves documents
+    // outside of it, ie, system headers. Clients are restarted when this
+    // changes; see onDidChangeWorkspaceFolders.
+    let documentSelector: DocumentSelector = kLanguageIds;
+    if (isScopedToFolder(folder)) {
+      // Unlike a glob built from the path, a RelativePattern needs no
+      // escaping.
+      let pattern = new RelativePattern(folder, '**/*');
+      documentSelector = kLanguageIds.map(language => ({
+        scheme: 'file',
+        language: language,
+        // The language client types |pattern| as a string, but passes the
+        // selector on to vscode, which also takes a RelativePattern.
+        pattern: pattern as any
+      }));
+    }
+
     // Options to control the language client
     let clientOptions: LanguageClientOptions = {
-      documentSelector: ['c', 'cpp', 'objective-c', 'objective-cpp'],
+      documentSelector: documentSelector,
       // synchronize: {
       // 	configurationSection: 'cquery',
       // 	fileEvents: workspace.createFileSystemWatcher('**/.cc')
       // },
       diagnosticCollectionName: 'cquery',
-      outputChannelName: 'cquery',
+      outputChannelName: folder ? `cquery (${folder.name})` : 'cquery',
       revealOutputChannelOn: RevealOutputChannelOn.Never,
       initializationOptions: clientConfig,
       middleware: {provideCodeLenses: provideCodeLens},
@@ -367,68 +481,329 @@ export function activate(context: ExtensionContext) {
         console.log(e);
         return false;
       },
-      errorHandler: new CqueryErrorHandler(workspace.getConfiguration('cquery'))
+      errorHandler: errorHandler,
+      workspaceFolder: folder
     }
 
     // Create the language client and start the client.
     let languageClient =
         new LanguageClient('cquery', 'cquery', serverOptions, clientOptions);
-    let command = serverOptions.command
     languageClient.onReady().catch(e => {
-      // TODO: remove cquery.launch.workingDirectory after July 2018
-      window.showErrorMessage(
-          'cquery.launch.command has changed; either add cquery to your PATH ' +
-          'or make cquery.launch.command an absolute path. Current value: "' +
-          command + '". cquery.launch.workingDirectory has been removed.');
+      const kOpenReport = 'Open Crash Report';
+      window.showErrorMessage(describeSpawnError(e, command), kOpenReport)
+          .then(selected => {
+            if (selected == kOpenReport)
+              commands.executeCommand('cquery.openCrashReport', folder);
+          });
     });
-    context.subscriptions.push(languageClient.start());
+    let managed = new ManagedClient(folder, languageClient, clientConfig);
+
+    // Make sure cquery does not outlive its client, ie, if it ignores the
+    // exit notification.
+    managed.disposables.push(languageClient.onDidChangeState(e => {
+      if (e.newState != State.Stopped || !serverProcess)
+        return;
+      let stoppedProcess = serverProcess;
+      setTimeout(() => {
+        if (serverProcess == stoppedProcess) {
+          serverProcess = undefined;
+          stoppedProcess.kill();
+        }
+      }, 2000);
+    }));
 
-    return languageClient;
-  });
+    return managed;
+  }
+
+  // Restarts the client for |folder| on behalf of the user, which resets its
+  // crash budget.
+  function manuallyRestartClient(folder: WorkspaceFolder|undefined) {
+    let errorHandler = errorHandlers.get(getFolderKey(folder));
+    if (errorHandler)
+      errorHandler.reset();
+    clientManager.restart(folder);
+  }
+
+  function isScopedToFolder(folder: WorkspaceFolder|undefined) {
+    return !!folder && workspace.workspaceFolders.length > 1;
+  }
+
+  context.subscriptions.push(workspace.onDidChangeWorkspaceFolders(e => {
+    // Clients which were created with a different document selector serve
+    // the wrong documents, ie, an unscoped client next to a scoped one.
+    let folderCount = workspace.workspaceFolders ?
+        workspace.workspaceFolders.length :
+        0;
+    let previousCount = folderCount - e.added.length + e.removed.length;
+    if ((previousCount > 1) != (folderCount > 1)) {
+      for (let folder of workspace.workspaceFolders || []) {
+        if (e.added.indexOf(folder) < 0 && clientManager.get(folder))
+          clientManager.restart(folder);
+      }
+    }
 
-  let languageClient = getLanguageClient();
+    // A client without a folder is only used while no folder is open.
+    clientManager.stop(undefined);
+    for (let folder of e.removed) {
+      clientManager.stop(folder);
+      // Also cancels pending restarts.
+      let errorHandler = errorHandlers.get(getFolderKey(folder));
+      if (errorHandler)
+        errorHandler.reset();
+      errorHandlers.delete(getFolderKey(folder));
+    }
+    for (let folder of e.added)
+      clientManager.start(folder);
+  }));
+
+  // The converter does not depend on a client, so it stays valid when clients
+  // are restarted.
+  const p2c = createProtocolConverter();
+
+  // Last inactive regions and semantic highlighting published for every open
+  // document, keyed by uri. Used to decorate editors which become visible after
+  // the server sent the notification.
+  let inactiveRegionsCache = new Map<string, Range[]>();
+  let semanticHighlightingCache =
+      new Map<string, PublishSemanticHighlightingArgs>();
+  // Invoked with every $cquery/progress notification.
+  let progressListeners: Array<(client: LanguageClient, args: any) => void> =
+      [];
+  // Results of find references style commands; see the References view.
+  let referencesProvider = new ReferencesProvider();
+  const kReferencesHistoryKey = 'cquery.references.history';
+  referencesProvider.history =
+      context.workspaceState.get<ReferenceQuery[]>(kReferencesHistoryKey, []);
+
+  // Shows |locations| in the References view, or in a peek window if the view
+  // is disabled. |method| and |params| are the request which returned
+  // |locations|, if any.
+  function showReferenceResults(
+      uri: Uri, position: Position, title: string,
+      locations: ReferenceLocation[], method?: string, params?: any) {
+    let config = workspace.getConfiguration('cquery');
+    if (!config.get('references.showInPanel', true)) {
+      commands.executeCommand(
+          'editor.action.showReferences', uri, position,
+          locations.map(p2c.asLocation));
+      return;
+    }
+    referencesProvider.show({
+      title: title,
+      time: Date.now(),
+      method: method,
+      params: params,
+      locations: locations
+    });
+    onReferencesChanged();
+  }
 
-  let p2c = languageClient.protocol2CodeConverter;
+  // Saves the history and updates the context keys of the References view.
+  function onReferencesChanged() {
+    context.workspaceState.update(
+        kReferencesHistoryKey, toSavedHistory(referencesProvider.history));
+    let current = referencesProvider.current;
+    setContext(
+        'extension.cquery.referencesVisible', !!current && !!current.locations);
+    setContext(
+        'extension.cquery.referencesHaveRoles', !!current && hasRoles(current));
+  }
 
   // General commands.
   (() => {
     commands.registerCommand('cquery.freshenIndex', () => {
-      languageClient.sendNotification('$cquery/freshenIndex');
+      let languageClient = clientManager.getActiveClient();
+      if (languageClient)
+        languageClient.sendNotification('$cquery/freshenIndex');
     });
     commands.registerCommand('cquery.restart', () => {
-      languageClient.stop();
-      languageClient = getLanguageClient();
+      manuallyRestartClient(clientManager.getActiveFolder());
     });
+    commands.registerCommand('cquery.selectServerBinary', () => {
+      let folder = clientManager.getActiveFolder();
+      let binaries = findServerBinaries(folder);
+      if (binaries.length == 0) {
+        window.showErrorMessage(
+            'No cquery binary was found on PATH, in the common install ' +
+            'prefixes or in the build directory of the workspace.');
+        return;
+      }
+      chooseServerBinary(folder, binaries);
+    });
+    commands.registerCommand(
+        'cquery.openCrashReport', (folder?: WorkspaceFolder) => {
+          if (!folder)
+            folder = clientManager.getActiveFolder();
+          let errorHandler = errorHandlers.get(getFolderKey(folder));
+          let managed = clientManager.get(folder);
+          if (!errorHandler) {
+            window.showInformationMessage('cquery has not been started.');
+            return;
+          }
+          // A client which crashed too often is still registered, so its
+          // configuration is available.
+          let report = formatCrashReport(
+              errorHandler.log, managed ? managed.config : undefined);
+          workspace.openTextDocument({language: 'markdown', content: report})
+              .then(document => window.showTextDocument(document));
+        });
+
+    // Returns a description of the results of a request for the symbol under
+    // the cursor, ie, 'Callers of foo'. Called before sending the request since
+    // the cursor may move until the results arrive.
+    function describeRequest(editor: TextEditor, title: string) {
+      let wordRange =
+          editor.document.getWordRangeAtPosition(editor.selection.active);
+      if (wordRange)
+        title += ` ${editor.document.getText(wordRange)}`;
+      return title;
+    }
 
-    function makeRefHandler(methodName, autoGotoIfSingle = false) {
+    function makeRefHandler(
+        methodName: string, title: string, extraParams = {}) {
       return () => {
-        let position = window.activeTextEditor.selection.active;
-        let uri = window.activeTextEditor.document.uri;
-        languageClient
-            .sendRequest(methodName, {
-              textDocument: {
-                uri: uri.toString(),
-              },
-              position: position
-            })
-            .then((locations: Array<ls.Location>) => {
-              if (autoGotoIfSingle && locations.length == 1) {
-                let location = p2c.asLocation(locations[0]);
-                commands.executeCommand(
-                    'cquery.goto', location.uri, location.range.start, []);
-              } else {
-                commands.executeCommand(
-                    'editor.action.showReferences', uri, position,
-                    locations.map(p2c.asLocation));
-              }
+        let editor = window.activeTextEditor;
+        let position = editor.selection.active;
+        let uri = editor.document.uri;
+        let languageClient = clientManager.getClientForUri(uri);
+        if (!languageClient)
+          return;
+        let description = describeRequest(editor, title);
+        let params = Object.assign({
+          textDocument: {
+            uri: uri.toString(),
+          },
+          position: position
+        }, extraParams);
+        languageClient.sendRequest(methodName, params)
+            .then((locations: Array<ReferenceLocation>) => {
+              showReferenceResults(
+                  uri, position, description, locations, methodName, params);
             })
       }
     }
-    commands.registerCommand('cquery.vars', makeRefHandler('$cquery/vars'));
     commands.registerCommand(
-        'cquery.callers', makeRefHandler('$cquery/callers'));
+        'cquery.vars', makeRefHandler('$cquery/vars', 'Variables of type'));
+    commands.registerCommand(
+        'cquery.callers', makeRefHandler('$cquery/callers', 'Callers of'));
     commands.registerCommand(
-        'cquery.base', makeRefHandler('$cquery/base', true));
+        'cquery.references',
+        makeRefHandler(
+            'textDocument/references', 'References to',
+            {context: {includeDeclaration: false}}));
+
+    // A result of a navigation command. |name| is only known for results of
+    // hierarchy requests.
+    interface NavigationTarget {
+      name?: string;
+      location: ls.Location;
+    }
+
+    // Jumps to the only result of |request|, or lets the user pick one of
+    // several results.
+    function makeNavigationHandler(
+        title: string,
+        request: (languageClient: LanguageClient, params: any) =>
+            Thenable<NavigationTarget[]>) {
+      return () => {
+        let editor = window.activeTextEditor;
+        let position = editor.selection.active;
+        let uri = editor.document.uri;
+        let languageClient = clientManager.getClientForUri(uri);
+        if (!languageClient)
+          return;
+        let description = describeRequest(editor, title);
+        request(languageClient, {
+          textDocument: {
+            uri: uri.toString(),
+          },
+          position: position
+        }).then(targets => {
+          if (targets.length == 0) {
+            window.showInformationMessage(`${description}: no results.`);
+            return;
+          }
+          if (targets.length == 1) {
+            gotoLocation(targets[0].location);
+            return;
+          }
+
+          const kShowAll = '$(list-flat) Show All in References View';
+          let items: Array<QuickPickItem&{target?: NavigationTarget}> =
+              targets.map(target => {
+                let location = target.location;
+                let file = workspace.asRelativePath(p2c.asUri(location.uri));
+                let where = `${file}:${location.range.start.line + 1}`;
+                return {
+                  label: target.name || where,
+                  description: target.name ? where : '',
+                  target: target
+                };
+              });
+          items.push({label: kShowAll});
+          window.showQuickPick(items, {placeHolder: description})
+              .then(selected => {
+                if (!selected)
+                  return;
+                if (selected.target) {
+                  gotoLocation(selected.target.location);
+                } else {
+                  showReferenceResults(
+                      uri, position, description,
+                      targets.map(t => t.location));
+                }
+              });
+        });
+      };
+    }
+    function gotoLocation(location: ls.Location) {
+      jumpToUriAtPosition(
+          p2c.asUri(location.uri), p2c.asPosition(location.range.start),
+          false /*preserveFocus*/);
+    }
+    function makeLocationRequest(methodName: string) {
+      return (languageClient: LanguageClient, params: any) => {
+        return languageClient.sendRequest(methodName, params)
+            .then((locations: ls.Location[]) => {
+              return locations.map(location => ({location: location}));
+            });
+      };
+    }
+    // The children of the root of the hierarchy are the targets.
+    function makeHierarchyRequest(methodName: string, extraParams: any) {
+      return (languageClient: LanguageClient, params: any) => {
+        params = Object.assign(
+            {detailedName: false, levels: 1}, extraParams, params);
+        return languageClient.sendRequest(methodName, params)
+            .then((root: any): NavigationTarget[] => {
+              if (!root)
+                return [];
+              return root.children.filter((c: any) => c.location)
+                  .map((c: any) => {
+                    return {name: c.fieldName || c.name, location: c.location};
+                  });
+            });
+      };
+    }
+    commands.registerCommand(
+        'cquery.base',
+        makeNavigationHandler('Bases of', makeLocationRequest('$cquery/base')));
+    commands.registerCommand(
+        'cquery.derived',
+        makeNavigationHandler(
+            'Derived types and overrides of',
+            makeLocationRequest('$cquery/derived')));
+    commands.registerCommand(
+        'cquery.callees',
+        makeNavigationHandler(
+            'Callees of',
+            makeHierarchyRequest(
+                '$cquery/callHierarchy',
+                {callee: true, callType: CallType.All})));
+    commands.registerCommand(
+        'cquery.members',
+        makeNavigationHandler(
+            'Members of', makeHierarchyRequest('$cquery/memberHierarchy', {})));
   })();
 
   // The language client does not correctly deserialize arguments, so we have a
@@ -454,144 +829,620 @@ export function activate(context: ExtensionContext) {
 
   // FixIt support
   (() => {
-    commands.registerCommand('cquery._applyFixIt', (uri, pTextEdits) => {
-      const textEdits = p2c.asTextEdits(pTextEdits);
-
-      function applyEdits(e: TextEditor) {
-        e.edit(editBuilder => {
-           for (const edit of textEdits)
-             editBuilder.replace(edit.range, edit.newText);
-         }).then(success => {
-          if (!success)
-            window.showErrorMessage('Failed to apply FixIt');
+    commands.registerCommand(
+        'cquery._applyFixIt',
+        (uri: string|ls.WorkspaceEdit, pTextEdits?: ls.TextEdit[]) => {
+          return applyWorkspaceEdit(
+              asWorkspaceEdit(uri, pTextEdits), 'FixIt');
         });
-      }
 
-      // Find existing open document.
-      for (const textEditor of window.visibleTextEditors) {
-        if (textEditor.document.uri.toString() == uri) {
-          applyEdits(textEditor);
-          return;
-        }
+    // Applies the FixIts of every diagnostic in the active document at once.
+    commands.registerCommand('cquery.applyAllFixIts', () => {
+      let editor = window.activeTextEditor;
+      if (!editor)
+        return;
+      let document = editor.document;
+      let languageClient = clientManager.getClientForUri(document.uri);
+      if (!languageClient)
+        return;
+      let diagnostics = (languageClient.diagnostics &&
+                         languageClient.diagnostics.get(document.uri)) ||
+          [];
+      if (diagnostics.length == 0) {
+        window.showInformationMessage('cquery reported no diagnostics.');
+        return;
       }
 
-      // Failed, open new document.
-      workspace.openTextDocument(parseUri(uri))
-          .then(d => {window.showTextDocument(d).then(e => {
-                  if (!e)
-                    window.showErrorMessage(
-                        'Failed to to get editor for FixIt');
-
-                  applyEdits(e);
-                })});
+      let c2p = languageClient.code2ProtocolConverter;
+      let lastLine = document.lineAt(document.lineCount - 1);
+      let wholeDocument = new Range(new Position(0, 0), lastLine.range.end);
+      languageClient
+          .sendRequest('textDocument/codeAction', {
+            textDocument: c2p.asTextDocumentIdentifier(document),
+            range: c2p.asRange(wholeDocument),
+            context: {diagnostics: c2p.asDiagnostics(diagnostics)}
+          })
+          .then((actions: ls.Command[]) => {
+            // Other code actions insert includes or implement methods.
+            let edits: TextEdit[] = [];
+            for (let action of actions || []) {
+              if (action.command != 'cquery._applyFixIt')
+                continue;
+              let [uri, pTextEdits] = action.arguments;
+              if (uri == document.uri.toString())
+                edits = edits.concat(p2c.asTextEdits(pTextEdits));
+            }
+            if (edits.length == 0) {
+              window.showInformationMessage(
+                  'None of the diagnostics has a FixIt.');
+              return;
+            }
+            let applicable = removeOverlappingEdits(edits);
+            let edit = new WorkspaceEdit();
+            edit.set(document.uri, applicable);
+            return applyWorkspaceEdit(edit, 'FixIts').then(success => {
+              if (success && applicable.length < edits.length) {
+                window.showInformationMessage(
+                    `Applied ${applicable.length} of ${edits.length} ` +
+                    'FixIts; the others overlap and can be applied after ' +
+                    'cquery updates the diagnostics.');
+              }
+            });
+          });
     });
   })();
 
   // AutoImplement
   (() => {
-    commands.registerCommand('cquery._autoImplement', (uri, pTextEdits) => {
-      commands.executeCommand('cquery._applyFixIt', uri, pTextEdits)
-          .then(() => {
-            commands.executeCommand(
-                'cquery.goto', uri, pTextEdits[0].range.start);
+    let previewProvider = new PreviewContentProvider();
+    context.subscriptions.push(workspace.registerTextDocumentContentProvider(
+        PreviewContentProvider.scheme, previewProvider));
+    let stubNavigator = new StubNavigator();
+    context.subscriptions.push(stubNavigator);
+
+    // A file the generated definitions can be added to. |file| is undefined
+    // for a new file, which is asked for once picked.
+    class TargetPick implements QuickPickItem {
+      constructor(
+          public label: string, public description: string,
+          public file: string|undefined,
+          public makeEdits: (document: TextDocument|undefined, file: string) =>
+              TextEdit[]) {}
+    }
+
+    function makeTargetPicks(
+        serverFile: string, header: string, pTextEdits: ls.TextEdit[]) {
+      let stubs = pTextEdits.map(edit => edit.newText);
+      let picks: TargetPick[] = [];
+      // cquery already targets the paired source file if there is one.
+      let paired =
+          serverFile != header ? serverFile : findPairedSourceFile(header);
+      if (paired) {
+        picks.push(new TargetPick(
+            path.basename(paired), 'Paired source file', paired,
+            document => paired == serverFile ?
+                p2c.asTextEdits(pTextEdits) :
+                makeAppendEdits(document, stubs)));
+      }
+      picks.push(new TargetPick(
+          'New File...', 'Create a source file which includes the header',
+          undefined, (document, file) => {
+            let include = path.relative(path.dirname(file), header)
+                              .replace(/\\/g, '/');
+            let text = `#include "${include}"\n` + stubs.join('');
+            return [TextEdit.insert(new Position(0, 0), text)];
+          }));
+      picks.push(new TargetPick(
+          path.basename(header), 'Inline in the header', header,
+          document => makeInlineEdits(document, stubs)));
+      return picks;
+    }
+
+    function chooseFile(pick: TargetPick, header: string):
+        Thenable<string|undefined> {
+      if (pick.file)
+        return Promise.resolve(pick.file);
+      let base = header.substr(0, header.length - path.extname(header).length);
+      return window.showSaveDialog({defaultUri: Uri.file(base + '.cc')})
+          .then(uri => uri && uri.fsPath);
+    }
+
+    // Shows a diff of the new contents of |file| and resolves to true if the
+    // user wants to apply it.
+    function confirmWithPreview(
+        file: string, document: TextDocument|undefined,
+        edits: TextEdit[]): Thenable<boolean> {
+      let config = workspace.getConfiguration('cquery');
+      if (!config.get('autoImplement.preview', true))
+        return Promise.resolve(true);
+
+      let original = document ? document.uri :
+                                previewProvider.set(file, 'original', '');
+      let proposed = previewProvider.set(
+          file, 'proposed', applyEditsToText(document, edits));
+      const kApply = 'Apply';
+      return commands
+          .executeCommand(
+              'vscode.diff', original, proposed,
+              `${path.basename(file)} (generated definitions)`)
+          .then(
+              () => window.showInformationMessage(
+                  `Add the generated definitions to ${path.basename(file)}?`,
+                  kApply, 'Cancel'))
+          .then(selected => {
+            let editor = window.activeTextEditor;
+            if (editor &&
+                editor.document.uri.scheme == PreviewContentProvider.scheme)
+              commands.executeCommand('workbench.action.closeActiveEditor');
+            return selected == kApply;
           });
+    }
+
+    function apply(
+        file: string, document: TextDocument|undefined,
+        edits: TextEdit[]): Thenable<void> {
+      let bodies = findGeneratedBodies(document, edits);
+      let applied: Thenable<TextDocument|undefined>;
+      if (document) {
+        let edit = new WorkspaceEdit();
+        edit.set(document.uri, edits);
+        applied = applyWorkspaceEdit(edit, 'implementation')
+                      .then(success => success ? document : undefined);
+      } else {
+        applied = new Promise<void>((resolve, reject) => {
+                    fs.writeFile(
+                        file, applyEditsToText(undefined, edits),
+                        err => err ? reject(err) : resolve());
+                  }).then(() => workspace.openTextDocument(file));
+      }
+      return applied.then(document => {
+        if (!document)
+          return;
+        return window.showTextDocument(document).then(editor => {
+          stubNavigator.start(editor, bodies);
+          if (stubNavigator.remaining > 0) {
+            window.setStatusBarMessage(
+                `${bodies.length} definitions generated; run "cquery: Go ` +
+                    'to Next Generated Body" to fill in the next one.',
+                10000);
+          }
+        });
+      });
+    }
+
+    commands.registerCommand(
+        'cquery._autoImplement', (uri: string, pTextEdits: ls.TextEdit[]) => {
+          let serverFile = parseUri(uri).fsPath;
+          let editor = window.activeTextEditor;
+          let header = editor ? editor.document.uri.fsPath : serverFile;
+
+          let picks = makeTargetPicks(serverFile, header, pTextEdits);
+          window
+              .showQuickPick(
+                  picks, {placeHolder: 'Where to add the definitions'})
+              .then(pick => {
+                if (!pick)
+                  return;
+                return chooseFile(pick, header).then(file => {
+                  if (!file)
+                    return;
+                  let opened: Thenable<TextDocument|undefined> =
+                      fs.existsSync(file) ? workspace.openTextDocument(file) :
+                                            Promise.resolve(undefined);
+                  return opened.then(document => {
+                    let edits = pick.makeEdits(document, file);
+                    return confirmWithPreview(file, document, edits)
+                        .then(confirmed => {
+                          if (confirmed)
+                            return apply(file, document, edits);
+                        });
+                  });
+                });
+              })
+              .then(undefined, err => {
+                window.showErrorMessage(
+                    `Failed to add the generated definitions: ${
+                        err.message}`);
+              });
+        });
+
+    commands.registerCommand('cquery.nextGeneratedBody', () => {
+      if (!stubNavigator.next())
+        window.showInformationMessage('No more generated bodies.');
     });
   })();
 
   // Insert include.
   (() => {
-    commands.registerCommand('cquery._insertInclude', (uri, pTextEdits) => {
-      if (pTextEdits.length == 1)
-        commands.executeCommand('cquery._applyFixIt', uri, pTextEdits);
-      else {
-        let items: Array<QuickPickItem> = [];
-        class MyQuickPick implements QuickPickItem {
-          constructor(
-              public label: string, public description: string,
-              public edit: any) {}
-        }
-        for (let edit of pTextEdits) {
-          items.push(new MyQuickPick(edit.newText, '', edit));
-        }
-        window.showQuickPick(items).then((selected: MyQuickPick) => {
-          commands.executeCommand('cquery._applyFixIt', uri, [selected.edit]);
+    // Header chosen last for every symbol, keyed by symbol name.
+    const kLastIncludeKey = 'cquery.insertInclude.lastChoice';
+
+    function insertInclude(uri: string, edit: ls.TextEdit) {
+      applyWorkspaceEdit(asWorkspaceEdit(uri, [edit]), 'include');
+    }
+
+    // The code action is run from the symbol which needs the include, so the
+    // symbol is the word under the cursor.
+    function getSymbolName(uri: string): string|undefined {
+      let editor = window.activeTextEditor;
+      if (!editor || editor.document.uri.toString() != uri)
+        return undefined;
+      let range =
+          editor.document.getWordRangeAtPosition(editor.selection.active);
+      return range && editor.document.getText(range);
+    }
+
+    class IncludePick implements QuickPickItem {
+      constructor(
+          public label: string, public description: string,
+          public detail: string, public candidate: IncludeCandidate) {}
+    }
+
+    // |lastChoice| is the header chosen for the symbol last time; it becomes
+    // the default.
+    function makePicks(
+        candidates: IncludeCandidate[], lastChoice: string|undefined) {
+      let index = candidates.findIndex(c => c.header == lastChoice);
+      if (index > 0)
+        candidates.unshift(candidates.splice(index, 1)[0]);
+      return candidates.map(c => {
+        let description = c.isSystem ? 'system header' : 'project header';
+        if (c.header == lastChoice)
+          description += ', last used';
+        let detail = c.resolvedPath ? workspace.asRelativePath(c.resolvedPath) :
+                                      'not found in the workspace';
+        return new IncludePick(c.spelling, description, detail, c);
+      });
+    }
+
+    commands.registerCommand(
+        'cquery._insertInclude', (uri: string, pTextEdits: ls.TextEdit[]) => {
+          if (pTextEdits.length == 1) {
+            insertInclude(uri, pTextEdits[0]);
+            return;
+          }
+
+          let symbol = getSymbolName(uri);
+          let lastChoices =
+              context.workspaceState.get<{[symbol: string]: string}>(
+                  kLastIncludeKey, {});
+          let lastChoice = symbol && lastChoices[symbol];
+
+          let items =
+              rankIncludeCandidates(parseUri(uri), pTextEdits)
+                  .then(candidates => makePicks(candidates, lastChoice));
+          window
+              .showQuickPick(items, {
+                placeHolder: symbol ? `Header to include for ${symbol}` :
+                                      'Header to include',
+                matchOnDetail: true
+              })
+              .then(selected => {
+                if (!selected)
+                  return;
+                if (symbol) {
+                  lastChoices[symbol] = selected.candidate.header;
+                  context.workspaceState.update(kLastIncludeKey, lastChoices);
+                }
+                insertInclude(uri, selected.candidate.edit);
+              });
         });
-      }
-    });
   })();
 
   // Inactive regions.
   (() => {
-    let config = workspace.getConfiguration('cquery');
-    const inactiveRegionDecorationType = window.createTextEditorDecorationType({
-      isWholeLine: true,
-      light: {
-        color: config.get('theme.light.inactiveRegion.textColor'),
-        backgroundColor:
-            config.get('theme.light.inactiveRegion.backgroundColor'),
-      },
-      dark: {
-        color: config.get('theme.dark.inactiveRegion.textColor'),
-        backgroundColor:
-            config.get('theme.dark.inactiveRegion.backgroundColor'),
-      }
-    });
-    languageClient.onReady().then(() => {
-      languageClient.onNotification('$cquery/setInactiveRegions', (args) => {
-        let uri = args.uri;
-        let ranges: Range[] = args.inactiveRegions.map(p2c.asRange);
-        for (const textEditor of window.visibleTextEditors) {
-          if (textEditor.document.uri.toString() == uri) {
-            window.activeTextEditor.setDecorations(
-                inactiveRegionDecorationType, ranges);
-            break;
-          }
+    function makeInactiveRegionDecorationType() {
+      let config = workspace.getConfiguration('cquery');
+      return window.createTextEditorDecorationType({
+        isWholeLine: true,
+        overviewRulerLane: OverviewRulerLane.Left,
+        light: {
+          color: config.get('theme.light.inactiveRegion.textColor'),
+          backgroundColor:
+              config.get('theme.light.inactiveRegion.backgroundColor'),
+          overviewRulerColor:
+              config.get('theme.light.inactiveRegion.overviewRulerColor'),
+        },
+        dark: {
+          color: config.get('theme.dark.inactiveRegion.textColor'),
+          backgroundColor:
+              config.get('theme.dark.inactiveRegion.backgroundColor'),
+          overviewRulerColor:
+              config.get('theme.dark.inactiveRegion.overviewRulerColor'),
         }
       });
+    }
+    let inactiveRegionDecorationType = makeInactiveRegionDecorationType();
+
+    // Documents whose inactive regions should not be dimmed.
+    let undimmedDocuments = new Set<string>();
+
+    function applyInactiveRegions(editors: TextEditor[]) {
+      for (const textEditor of editors) {
+        let uri = textEditor.document.uri.toString();
+        let ranges = inactiveRegionsCache.get(uri);
+        if (ranges) {
+          textEditor.setDecorations(
+              inactiveRegionDecorationType,
+              undimmedDocuments.has(uri) ? [] : ranges);
+        }
+      }
+    }
+
+    commands.registerCommand('cquery.toggleInactiveRegionDimming', () => {
+      let editor = window.activeTextEditor;
+      if (!editor)
+        return;
+      let uri = editor.document.uri.toString();
+      if (undimmedDocuments.has(uri))
+        undimmedDocuments.delete(uri);
+      else
+        undimmedDocuments.add(uri);
+      applyInactiveRegions(window.visibleTextEditors.filter(
+          e => e.document.uri.toString() == uri));
+    });
+
+    // Any folding provider replaces the indentation based folding of vscode,
+    // so the provider is only registered if enabled.
+    function isFoldingEnabled() {
+      return workspace.getConfiguration('cquery').get(
+          'misc.foldInactiveRegions', false);
+    }
+    let foldingProvider: Disposable|undefined;
+    // vscode 1.23 has no event to refresh folding ranges; they are only
+    // computed again when the document changes or a provider is registered.
+    function registerFoldingProvider() {
+      if (foldingProvider)
+        foldingProvider.dispose();
+      foldingProvider = undefined;
+      if (!isFoldingEnabled())
+        return;
+      foldingProvider = languages.registerFoldingRangeProvider(kLanguageIds, {
+        provideFoldingRanges(document: TextDocument) {
+          let ranges = inactiveRegionsCache.get(document.uri.toString());
+          if (!ranges)
+            return undefined;
+          return ranges.filter(range => range.end.line > range.start.line)
+              .map(
+                  range => new FoldingRange(
+                      range.start.line, range.end.line,
+                      FoldingRangeKind.Region));
+        }
+      });
+    }
+    registerFoldingProvider();
+    context.subscriptions.push(new Disposable(() => {
+      if (foldingProvider)
+        foldingProvider.dispose();
+    }));
+
+    commands.registerCommand('cquery.foldInactiveRegions', () => {
+      let editor = window.activeTextEditor;
+      if (!editor)
+        return;
+      if (!isFoldingEnabled()) {
+        window.showInformationMessage(
+            'Enable cquery.misc.foldInactiveRegions to fold inactive regions.');
+        return;
+      }
+      let ranges = inactiveRegionsCache.get(editor.document.uri.toString());
+      if (!ranges || ranges.length == 0) {
+        window.showInformationMessage('No inactive regions in this file.');
+        return;
+      }
+      // editor.fold folds the regions containing the selections, so select
+      // the first line of every inactive region and restore the selections
+      // afterwards.
+      let selections = editor.selections;
+      editor.selections =
+          ranges.map(range => new Selection(range.start, range.start));
+      commands.executeCommand('editor.fold').then(() => {
+        editor.selections = selections;
+      });
+    });
+
+    context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('cquery.misc.foldInactiveRegions'))
+        registerFoldingProvider();
+      if (!e.affectsConfiguration('cquery.theme'))
+        return;
+      inactiveRegionDecorationType.dispose();
+      inactiveRegionDecorationType = makeInactiveRegionDecorationType();
+      applyInactiveRegions(window.visibleTextEditors);
+    }));
+    context.subscriptions.push(
+        window.onDidChangeVisibleTextEditors(applyInactiveRegions));
+    context.subscriptions.push(workspace.onDidCloseTextDocument(document => {
+      inactiveRegionsCache.delete(document.uri.toString());
+      undimmedDocuments.delete(document.uri.toString());
+    }));
+    clientManager.onDidStartClient(({client: languageClient}) => {
+      languageClient.onReady().then(() => {
+        languageClient.onNotification('$cquery/setInactiveRegions', (args) => {
+          let uri = args.uri;
+          inactiveRegionsCache.set(uri, args.inactiveRegions.map(p2c.asRange));
+          let editors = window.visibleTextEditors.filter(
+              e => e.document.uri.toString() == uri);
+          applyInactiveRegions(editors);
+          if (editors.length > 0 && foldingProvider)
+            registerFoldingProvider();
+        });
+      });
     });
   })();
 
   // Progress
   (() => {
-    let config = workspace.getConfiguration('cquery');
-    let statusStyle = config.get('misc.status');
-    if (statusStyle == 'short' || statusStyle == 'detailed') {
-      let statusIcon = window.createStatusBarItem(StatusBarAlignment.Right);
-      statusIcon.text = 'cquery: loading';
-      statusIcon.tooltip =
-          'cquery is loading project metadata (ie, compile_commands.json)';
+    let statusIcon = window.createStatusBarItem(StatusBarAlignment.Right);
+
+    // Last progress notification of every client, or undefined if the client
+    // is still loading. The status of the client which owns the active
+    // document is displayed.
+    let progress = new Map<LanguageClient, any>();
+    // Feeds the indexing dashboard.
+    let histories = new Map<LanguageClient, ProgressHistory>();
+    let dashboard: IndexingDashboard|undefined;
+
+    function updateStatusIcon() {
+      // Crashes are reported regardless of |cquery.misc.status|.
+      let errorHandler =
+          errorHandlers.get(getFolderKey(clientManager.getActiveFolder()));
+      if (errorHandler && errorHandler.gaveUp) {
+        statusIcon.text = '$(alert) cquery keeps crashing';
+        statusIcon.tooltip =
+            'cquery crashed repeatedly and is no longer restarted. Click to ' +
+            'open a crash report; use "cquery: Restart" to try again.';
+        statusIcon.command = 'cquery.openCrashReport';
+        statusIcon.show();
+        return;
+      }
+      statusIcon.command = 'cquery.showStatusMenu';
+
+      let config = workspace.getConfiguration('cquery');
+      let statusStyle = config.get('misc.status');
+      let languageClient = clientManager.getActiveClient();
+      if ((statusStyle != 'short' && statusStyle != 'detailed') ||
+          !progress.has(languageClient)) {
+        statusIcon.hide();
+        return;
+      }
       statusIcon.show();
+
+      let args = progress.get(languageClient);
+      if (!args) {
+        statusIcon.text = 'cquery: loading';
+        statusIcon.tooltip =
+            'cquery is loading project metadata (ie, compile_commands.json)';
+        return;
+      }
+
+      let indexRequestCount = args.indexRequestCount || 0;
+      let doIdMapCount = args.doIdMapCount || 0;
+      let loadPreviousIndexCount = args.loadPreviousIndexCount || 0;
+      let onIdMappedCount = args.onIdMappedCount || 0;
+      let onIndexedCount = args.onIndexedCount || 0;
+      let activeThreads = args.activeThreads || 0;
+      let total = getTotalJobs(args);
+
+      let detailedJobString = `indexRequest: ${indexRequestCount}, ` +
+          `doIdMap: ${doIdMapCount}, ` +
+          `loadPreviousIndex: ${loadPreviousIndexCount}, ` +
+          `onIdMapped: ${onIdMappedCount}, ` +
+          `onIndexed: ${onIndexedCount}, ` +
+          `activeThreads: ${activeThreads}`;
+
+      if (total == 0 && statusStyle == 'short') {
+        statusIcon.text = 'cquery: idle';
+      } else {
+        statusIcon.text = `cquery: ${indexRequestCount}|${total} jobs`;
+        if (statusStyle == 'detailed') {
+          statusIcon.text += ` (${detailedJobString})`
+        }
+      }
+      statusIcon.tooltip = 'cquery jobs: ' + detailedJobString;
+    }
+
+    function updateDashboard() {
+      if (!dashboard)
+        return;
+      let folder = clientManager.getActiveFolder();
+      let title = folder ? `cquery indexing (${folder.name})` :
+                           'cquery indexing';
+      dashboard.update(
+          title, histories.get(clientManager.getActiveClient()));
+    }
+
+    function update() {
+      updateStatusIcon();
+      updateDashboard();
+    }
+    window.onDidChangeActiveTextEditor(update);
+    context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('cquery.misc.status'))
+        updateStatusIcon();
+    }));
+
+    crashStateChangedHandlers.push(updateStatusIcon);
+    clientManager.onDidStartClient(managed => {
+      let languageClient = managed.client;
+      progress.set(languageClient, undefined);
+      histories.set(languageClient, new ProgressHistory());
+      managed.disposables.push(new Disposable(() => {
+        progress.delete(languageClient);
+        histories.delete(languageClient);
+        update();
+      }));
+      update();
       languageClient.onReady().then(() => {
         languageClient.onNotification('$cquery/progress', (args) => {
-          let indexRequestCount = args.indexRequestCount || 0;
-          let doIdMapCount = args.doIdMapCount || 0;
-          let loadPreviousIndexCount = args.loadPreviousIndexCount || 0;
-          let onIdMappedCount = args.onIdMappedCount || 0;
-          let onIndexedCount = args.onIndexedCount || 0;
-          let activeThreads = args.activeThreads || 0;
-          let total = indexRequestCount + doIdMapCount +
-              loadPreviousIndexCount + onIdMappedCount + onIndexedCount +
-              activeThreads;
-
-          let detailedJobString = `indexRequest: ${indexRequestCount}, ` +
-              `doIdMap: ${doIdMapCount}, ` +
-              `loadPreviousIndex: ${loadPreviousIndexCount}, ` +
-              `onIdMapped: ${onIdMappedCount}, ` +
-              `onIndexed: ${onIndexedCount}, ` +
-              `activeThreads: ${activeThreads}`;
-
-          if (total == 0 && statusStyle == 'short') {
-            statusIcon.text = 'cquery: idle';
-          } else {
-            statusIcon.text = `cquery: ${indexRequestCount}|${total} jobs`;
-            if (statusStyle == 'detailed') {
-              statusIcon.text += ` (${detailedJobString})`
-            }
-          }
-          statusIcon.tooltip = 'cquery jobs: ' + detailedJobString;
+          progress.set(languageClient, args);
+          histories.get(languageClient).add(args);
+          update();
+          for (let listener of progressListeners)
+            listener(languageClient, args);
         });
       });
-    }
+    });
+
+    commands.registerCommand('cquery.showIndexingDashboard', () => {
+      if (dashboard) {
+        dashboard.reveal();
+      } else {
+        dashboard = new IndexingDashboard(() => {
+          dashboard = undefined;
+        });
+      }
+      updateDashboard();
+    });
+
+    // Opened by clicking the status bar item.
+    commands.registerCommand('cquery.showStatusMenu', () => {
+      let config = workspace.getConfiguration('cquery');
+      let renderInline = config.get('codeLens.renderInline', false);
+      let items: Array<QuickPickItem&{run: () => void}> = [
+        {
+          label: 'Restart',
+          description: 'Restart the cquery server',
+          run: () => commands.executeCommand('cquery.restart')
+        },
+        {
+          label: 'Freshen Index',
+          description: 'Reindex files which changed since they were indexed',
+          run: () => commands.executeCommand('cquery.freshenIndex')
+        },
+        {
+          label: 'Open Output',
+          description: 'Show the output of the cquery server',
+          run: () => {
+            let languageClient = clientManager.getActiveClient();
+            if (languageClient)
+              languageClient.outputChannel.show();
+          }
+        },
+        {
+          label: 'Toggle Semantic Highlighting',
+          description: 'Show or hide semantic highlighting in every editor',
+          run: () =>
+              commands.executeCommand('cquery.toggleSemanticHighlighting')
+        },
+        {
+          label: renderInline ? 'Disable Inline Code Lens' :
+                                'Enable Inline Code Lens',
+          description: 'Toggle cquery.codeLens.renderInline',
+          run: () => commands.executeCommand('cquery.toggleInlineCodeLens')
+        },
+        {
+          label: 'Show Indexing Dashboard',
+          description: 'Chart the indexing queues over time',
+          run: () => commands.executeCommand('cquery.showIndexingDashboard')
+        }
+      ];
+      window.showQuickPick(items, {placeHolder: statusIcon.tooltip})
+          .then(selected => {
+            if (selected)
+              selected.run();
+          });
+    });
   })();
 
   // QueryDb busy
@@ -601,47 +1452,476 @@ export function activate(context: ExtensionContext) {
     // avoid that.
     const kGracePeriodMs = 250;
 
-    var timeout: NodeJS.Timer
-    var resolvePromise: any
-    languageClient.onReady().then(() => {
-      languageClient.onNotification('$cquery/queryDbStatus', (args) => {
-        let isActive: boolean = args.isActive;
-        if (isActive) {
-          if (timeout) {
-            clearTimeout(timeout);
-            timeout = undefined;
+    clientManager.onDidStartClient(managed => {
+      let languageClient = managed.client;
+      var timeout: NodeJS.Timer
+      var resolvePromise: any
+      // Do not leave the notification behind when the client is stopped.
+      managed.disposables.push(new Disposable(() => {
+        clearTimeout(timeout);
+        if (resolvePromise)
+          resolvePromise();
+      }));
+      languageClient.onReady().then(() => {
+        languageClient.onNotification('$cquery/queryDbStatus', (args) => {
+          let isActive: boolean = args.isActive;
+          if (isActive) {
+            if (timeout) {
+              clearTimeout(timeout);
+              timeout = undefined;
+            }
+            else {
+              window.withProgress({location: ProgressLocation.Notification, title: 'querydb is busy'}, (p) => {
+                p.report({increment: 100})
+                return new Promise((resolve, reject) => {
+                  resolvePromise = resolve;
+                });
+              });
+            }
+          } else if (resolvePromise) {
+            timeout = setTimeout(() => {
+              resolvePromise();
+              resolvePromise = undefined;
+              timeout = undefined;
+            }, kGracePeriodMs);
           }
-          else {
-            window.withProgress({location: ProgressLocation.Notification, title: 'querydb is busy'}, (p) => {
-              p.report({increment: 100})
-              return new Promise((resolve, reject) => {
-                resolvePromise = resolve;
+        });
+      });
+    });
+  })();
+
+  // Scoped freshen index.
+  (() => {
+    function escapeRegex(value: string) {
+      return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+    }
+
+    // Converts |glob| into a regex which matches the end of absolute paths.
+    // Backslashes are path separators, as on Windows, not escapes.
+    function globToRegex(glob: string) {
+      glob = glob.replace(/\\/g, '/');
+      let result = '';
+      for (let i = 0; i < glob.length; ++i) {
+        let c = glob[i];
+        if (c == '*' && glob[i + 1] == '*') {
+          result += '.*';
+          ++i;
+          // '**/' also matches no directory at all.
+          if (glob[i + 1] == '/')
+            ++i;
+        } else if (c == '*') {
+          result += '[^/]*';
+        } else if (c == '?') {
+          result += '[^/]';
+        } else {
+          result += escapeRegex(c);
+        }
+      }
+      return `(^|/)${result}$`;
+    }
+
+    // Returns a regex which matches |uri| literally, or every file inside of it
+    // if it is a directory. cquery matches the regexes against paths with
+    // forward slashes; the case of Windows drive letters varies.
+    function pathToRegex(uri: Uri, isDirectory: boolean) {
+      let regex = escapeRegex(uri.fsPath.replace(/\\/g, '/'));
+      regex = regex.replace(
+          /^([a-zA-Z]):/,
+          (_, drive: string) =>
+              `[${drive.toLowerCase()}${drive.toUpperCase()}]:`);
+      return isDirectory ? `^${regex}/` : `^${regex}$`;
+    }
+
+    // Sends $cquery/freshenIndex restricted to |whitelist| and shows a
+    // progress notification until the resulting jobs are done.
+    function freshenIndex(
+        languageClient: LanguageClient, whitelist: string[],
+        description: string) {
+      // The whitelist only overrides the blacklist, so every other file is
+      // blacklisted; otherwise the whole project is reindexed.
+      languageClient.sendNotification('$cquery/freshenIndex', {
+        whitelist: whitelist,
+        blacklist: ['.*'],
+        dependencies: true
+      });
+
+      window.withProgress(
+          {
+            location: ProgressLocation.Notification,
+            title: `cquery: freshening ${description}`
+          },
+          (progress) => {
+            return new Promise<void>(resolve => {
+              let maxJobs = 0;
+              let reported = 0;
+              function finish() {
+                clearTimeout(timeout);
+                stateListener.dispose();
+                let index = progressListeners.indexOf(listener);
+                if (index >= 0)
+                  progressListeners.splice(index, 1);
+                resolve();
+              }
+              // Nothing may match, in which case the server never reports
+              // any jobs. The server may also crash or be replaced while
+              // indexing, so the notification is closed if no progress is
+              // reported for a while.
+              let timeout = setTimeout(finish, 5000);
+              let stateListener = languageClient.onDidChangeState(e => {
+                if (e.newState == State.Stopped)
+                  finish();
               });
+              let listener = (client: LanguageClient, args: any) => {
+                if (client != languageClient)
+                  return;
+                let jobs = getTotalJobs(args);
+                if (jobs == 0) {
+                  if (maxJobs > 0)
+                    finish();
+                  return;
+                }
+                clearTimeout(timeout);
+                timeout = setTimeout(finish, 60 * 1000);
+                maxJobs = Math.max(maxJobs, jobs);
+                let done = Math.floor(100 * (maxJobs - jobs) / maxJobs);
+                progress.report({
+                  message: `${jobs} jobs remaining`,
+                  increment: done - reported
+                });
+                reported = done;
+              };
+              progressListeners.push(listener);
             });
+          });
+    }
+
+    function statIsDirectory(uri: Uri): boolean {
+      try {
+        return fs.statSync(uri.fsPath).isDirectory();
+      } catch (e) {
+        return false;
+      }
+    }
+
+    // Invoked from the explorer with the clicked resource and, for multiple
+    // selections, every selected resource. Falls back to the active file.
+    commands.registerCommand(
+        'cquery.freshenIndexForResource', (uri?: Uri, selected?: Uri[]) => {
+          let uris = selected && selected.length > 0 ? selected :
+                                                       (uri ? [uri] : []);
+          if (uris.length == 0 && window.activeTextEditor)
+            uris = [window.activeTextEditor.document.uri];
+          if (uris.length == 0)
+            return;
+          let languageClient = clientManager.getClientForUri(uris[0]);
+          if (!languageClient)
+            return;
+          let whitelist =
+              uris.map(uri => pathToRegex(uri, statIsDirectory(uri)));
+          let description = uris.length == 1 ?
+              workspace.asRelativePath(uris[0]) :
+              `${uris.length} resources`;
+          freshenIndex(languageClient, whitelist, description);
+        });
+
+    commands.registerCommand('cquery.freshenIndexMatching', () => {
+      let languageClient = clientManager.getActiveClient();
+      if (!languageClient)
+        return;
+      window
+          .showInputBox({
+            prompt: 'Files to freshen: a glob (ie, src/net/**/*.cc) or a ' +
+                'regex in slashes (ie, /_test\\.cc$/)',
+            placeHolder: 'src/**/*.cc'
+          })
+          .then(pattern => {
+            if (!pattern)
+              return;
+            let regex: string;
+            let match = /^\/(.*)\/$/.exec(pattern);
+            if (match) {
+              regex = match[1];
+              try {
+                new RegExp(regex);
+              } catch (e) {
+                window.showErrorMessage(`Invalid regex: ${e.message}`);
+                return;
+              }
+            } else {
+              regex = globToRegex(pattern);
+            }
+            freshenIndex(languageClient, [regex], pattern);
+          });
+    });
+  })();
+
+  // Index cache directory.
+  (() => {
+    // Returns the cache directory of |folder|, resolved as it is sent to the
+    // server.
+    function getCacheDirectory(folder: WorkspaceFolder|undefined): string|
+        undefined {
+      let managed = clientManager.get(folder);
+      let clientConfig = managed ? managed.config :
+                                   getClientConfig(context, folder);
+      return clientConfig ? clientConfig.cacheDirectory : undefined;
+    }
+
+    // Runs |action| while the client of |folder| is stopped, so the server
+    // does not write to the cache at the same time.
+    function withClientStopped(
+        folder: WorkspaceFolder|undefined, title: string,
+        action: () => Thenable<void>) {
+      return window.withProgress(
+          {location: ProgressLocation.Notification, title: title},
+          () => clientManager.runStopped(folder, action));
+    }
+
+    commands.registerCommand('cquery.showIndexCacheInfo', () => {
+      let cacheDirectory =
+          getCacheDirectory(clientManager.getActiveFolder());
+      if (!cacheDirectory)
+        return;
+      getDirectoryStats(cacheDirectory)
+          .then(
+              stats => window.showInformationMessage(
+                  `cquery index cache ${cacheDirectory}: ${stats.files} ` +
+                  `files, ${formatBytes(stats.bytes)}.`),
+              err => window.showErrorMessage(
+                  `Failed to read the cquery index cache: ${err.message}`));
+    });
+
+    commands.registerCommand('cquery.clearIndexCache', () => {
+      let folder = clientManager.getActiveFolder();
+      let cacheDirectory = getCacheDirectory(folder);
+      if (!cacheDirectory)
+        return;
+      const kClear = 'Clear Cache';
+      window
+          .showWarningMessage(
+              `Delete the cquery index cache in ${cacheDirectory}? The ` +
+                  'project will be indexed from scratch.',
+              {modal: true}, kClear)
+          .then(selected => {
+            if (selected != kClear)
+              return;
+            withClientStopped(
+                folder, 'cquery: clearing index cache',
+                () => removeRecursively(cacheDirectory))
+                .then(undefined, err => {
+                  window.showErrorMessage(
+                      `Failed to clear the cquery index cache: ${
+                          err.message}`);
+                });
+          });
+    });
+
+    // Invoked from the explorer with the clicked file and, for multiple
+    // selections, every selected file. Falls back to the active file.
+    commands.registerCommand(
+        'cquery.clearIndexCacheForFiles', (uri?: Uri, selected?: Uri[]) => {
+          let uris = selected && selected.length > 0 ? selected :
+                                                       (uri ? [uri] : []);
+          if (uris.length == 0 && window.activeTextEditor)
+            uris = [window.activeTextEditor.document.uri];
+          if (uris.length == 0)
+            return;
+          let folder = workspace.getWorkspaceFolder(uris[0]);
+          let cacheDirectory = getCacheDirectory(folder);
+          if (!cacheDirectory)
+            return;
+          let projectRoot = folder ? folder.uri.fsPath : workspace.rootPath;
+
+          let entries: string[] = [];
+          for (let uri of uris) {
+            entries = entries.concat(
+                getCacheEntryPaths(cacheDirectory, projectRoot, uri.fsPath));
           }
-        } else if (resolvePromise) {
-          timeout = setTimeout(() => {
-            resolvePromise();
-            resolvePromise = undefined;
-            timeout = undefined;
-          }, kGracePeriodMs);
+          // The server reads and writes cache entries at any time, so it is
+          // stopped while they are deleted. On restart it reindexes the files
+          // which have no cache entry.
+          withClientStopped(
+              folder, 'cquery: clearing index cache entries',
+              () => Promise.all(entries.map(removeRecursively))
+                        .then(() => {}))
+              .then(undefined, err => {
+                window.showErrorMessage(
+                    `Failed to clear cquery cache entries: ${err.message}`);
+              });
+        });
+
+    commands.registerCommand('cquery.moveIndexCache', () => {
+      let folder = clientManager.getActiveFolder();
+      let cacheDirectory = getCacheDirectory(folder);
+      if (!cacheDirectory)
+        return;
+      window
+          .showOpenDialog({
+            canSelectFiles: false,
+            canSelectFolders: true,
+            openLabel: 'Move Cache Here'
+          })
+          .then(uris => {
+            if (!uris || uris.length == 0)
+              return;
+            let target =
+                path.join(uris[0].fsPath, path.basename(cacheDirectory));
+            if (fs.existsSync(target)) {
+              window.showErrorMessage(
+                  `Cannot move the cquery index cache: ${target} exists.`);
+              return;
+            }
+            withClientStopped(folder, 'cquery: moving index cache', () => {
+              let move = fs.existsSync(cacheDirectory) ?
+                  moveDirectory(cacheDirectory, target) :
+                  Promise.resolve();
+              let config =
+                  workspace.getConfiguration('cquery', folder && folder.uri);
+              return move.then(
+                  () => config.update(
+                      'cacheDirectory', target,
+                      folder ? ConfigurationTarget.WorkspaceFolder :
+                               ConfigurationTarget.Workspace));
+            })
+                .then(
+                    () => window.showInformationMessage(
+                        `Moved the cquery index cache to ${target}.`),
+                    err => window.showErrorMessage(
+                        `Failed to move the cquery index cache: ${
+                            err.message}`));
+          });
+    });
+  })();
+
+  // Compilation database.
+  (() => {
+    const kSelect = 'Select Compilation Database';
+    const kLearnMore = 'Learn More';
+    const kWikiUrl =
+        'https://github.com/cquery-project/cquery/wiki/Compilation-database';
+
+    function selectCompilationDatabase(folder: WorkspaceFolder|undefined) {
+      if (!folder) {
+        window.showErrorMessage(
+            'Open a folder to select a compilation database.');
+        return;
+      }
+      findCompilationDatabases(folder).then(uris => {
+        if (uris.length == 0) {
+          window.showErrorMessage(
+              `No ${kCompilationDatabaseName} was found in ${folder.name}.`);
+          return;
         }
+        let items = uris.map(uri => {
+          let directory = path.dirname(uri.fsPath);
+          let relative = path.relative(folder.uri.fsPath, directory)
+                             .split(path.sep)
+                             .join('/');
+          return {
+            label: relative || '.',
+            description: directory,
+            directory: directory,
+            relative: relative
+          };
+        });
+        window
+            .showQuickPick(
+                items, {placeHolder: 'Compilation database cquery should use'})
+            .then(selected => {
+              if (!selected)
+                return;
+              // Relative paths keep the setting usable on other machines.
+              let value = selected.relative ?
+                  `\${workspaceFolder}/${selected.relative}` :
+                  '';
+              workspace.getConfiguration('cquery', folder.uri)
+                  .update(
+                      'misc.compilationDatabaseDirectory', value,
+                      ConfigurationTarget.WorkspaceFolder);
+            });
       });
+    }
+    commands.registerCommand('cquery.selectCompilationDatabase', () => {
+      selectCompilationDatabase(clientManager.getActiveFolder());
+    });
+
+    // Reindex when the compilation database of a client changes, ie, after
+    // the build system was rerun.
+    clientManager.onDidStartClient(managed => {
+      let directory = getCompilationDatabaseDirectory(managed.folder);
+      if (!directory)
+        return;
+      let watcher = workspace.createFileSystemWatcher(
+          new RelativePattern(directory, kCompilationDatabaseName));
+      let timeout: NodeJS.Timer;
+      // Build systems may write the file several times in a row.
+      let freshen = () => {
+        clearTimeout(timeout);
+        timeout = setTimeout(() => {
+          managed.client.onReady().then(
+              () => managed.client.sendNotification('$cquery/freshenIndex'));
+        }, 1000);
+      };
+      watcher.onDidChange(freshen);
+      watcher.onDidCreate(freshen);
+      managed.disposables.push(watcher, new Disposable(() => {
+        clearTimeout(timeout);
+      }));
     });
+
+    // Folders which have already been warned about.
+    let warnedFolders = new Set<string>();
+    function checkCompilationDatabase(document: TextDocument) {
+      if (kLanguageIds.indexOf(document.languageId) < 0 ||
+          document.uri.scheme != 'file')
+        return;
+      let folder = workspace.getWorkspaceFolder(document.uri);
+      let key = getFolderKey(folder);
+      if (warnedFolders.has(key) || hasCompilationDatabase(folder))
+        return;
+      warnedFolders.add(key);
+
+      let message = `cquery did not find ${kCompilationDatabaseName}` +
+          (folder ? ` for ${folder.name}` : '') +
+          ', so files are indexed without their compile flags. Generate one ' +
+          '(ie, with cmake -DCMAKE_EXPORT_COMPILE_COMMANDS=ON or Bear) in ' +
+          'the project root or a build directory, or add a .cquery file.';
+      let found = folder ? findCompilationDatabases(folder) :
+                           Promise.resolve<Uri[]>([]);
+      found.then(uris => {
+        let actions = uris.length > 0 ? [kSelect, kLearnMore] : [kLearnMore];
+        if (uris.length > 0)
+          message += ` Found ${uris.length} in build directories.`;
+        window.showWarningMessage(message, ...actions).then(selected => {
+          if (selected == kSelect)
+            selectCompilationDatabase(folder);
+          else if (selected == kLearnMore)
+            commands.executeCommand('vscode.open', Uri.parse(kWikiUrl));
+        });
+      });
+    }
+    context.subscriptions.push(
+        workspace.onDidOpenTextDocument(checkCompilationDatabase));
+    workspace.textDocuments.forEach(checkCompilationDatabase);
   })();
 
+  let inheritanceHierarchyProvider: InheritanceHierarchyProvider;
+  let callHierarchyProvider: CallHierarchyProvider;
+
   // Inheritance hierarchy.
   (() => {
-    const inheritanceHierarchyProvider =
-        new InheritanceHierarchyProvider(languageClient);
+    inheritanceHierarchyProvider = new InheritanceHierarchyProvider(
+        uri => clientManager.getClientForUri(uri));
     window.registerTreeDataProvider(
         'cquery.inheritanceHierarchy', inheritanceHierarchyProvider);
     commands.registerTextEditorCommand(
         'cquery.inheritanceHierarchy', (editor) => {
-          setContext('extension.cquery.inheritanceHierarchyVisible', true);
-
           let position = editor.selection.active;
           let uri = editor.document.uri;
+          let languageClient = clientManager.getClientForUri(uri);
+          if (!languageClient)
+            return;
+          setContext('extension.cquery.inheritanceHierarchyVisible', true);
           languageClient
               .sendRequest('$cquery/inheritanceHierarchy', {
                 textDocument: {
@@ -675,6 +1955,7 @@ export function activate(context: ExtensionContext) {
                         entry.numChildren += 1;
                       }
 
+                      inheritanceHierarchyProvider.documentUri = uri;
                       inheritanceHierarchyProvider.root = entry;
                       inheritanceHierarchyProvider.onDidChangeEmitter.fire();
                     });
@@ -697,30 +1978,82 @@ export function activate(context: ExtensionContext) {
         context.asAbsolutePath(path.join('resources', 'base-dark.svg'));
     let baseLight =
         context.asAbsolutePath(path.join('resources', 'base-light.svg'));
-    const callHierarchyProvider = new CallHierarchyProvider(
-        languageClient, derivedDark, derivedLight, baseDark, baseLight);
+    callHierarchyProvider = new CallHierarchyProvider(
+        uri => clientManager.getClientForUri(uri), derivedDark, derivedLight,
+        baseDark, baseLight);
+    const kFilterStateKey = 'cquery.callHierarchy.filter';
+    Object.assign(
+        callHierarchyProvider.filter,
+        context.workspaceState.get<CallHierarchyFilter>(kFilterStateKey));
     window.registerTreeDataProvider(
         'cquery.callHierarchy', callHierarchyProvider);
-    commands.registerTextEditorCommand('cquery.callHierarchy', (editor) => {
+    // |target| is either a text document position or the id of an existing
+    // node. |documentUri| decides which client is asked.
+    function showCallHierarchy(documentUri: Uri, target: any, callee: boolean) {
+      let languageClient = clientManager.getClientForUri(documentUri);
+      if (!languageClient)
+        return;
       setContext('extension.cquery.callHierarchyVisible', true);
-      let position = editor.selection.active;
-      let uri = editor.document.uri;
       languageClient
-          .sendRequest('$cquery/callHierarchy', {
-            textDocument: {
-              uri: uri.toString(),
-            },
-            position: position,
-            callee: false,
-            callType: 0x1 | 0x2,
+          .sendRequest('$cquery/callHierarchy', Object.assign({
+            callee: callee,
+            callType: callHierarchyProvider.requestedCallTypes(),
             detailedName: false,
             levels: 2
-          })
+          }, target))
           .then((callNode: CallHierarchyNode) => {
+            if (!callNode)
+              return;
+            CallHierarchyNode.setIsCallee(callNode, callee);
+            callHierarchyProvider.applyFilter(callNode);
+            callHierarchyProvider.documentUri = documentUri;
             callHierarchyProvider.root = callNode;
             callHierarchyProvider.onDidChangeEmitter.fire();
           });
+    }
+    function getEditorTarget(editor: TextEditor) {
+      return {
+        textDocument: {
+          uri: editor.document.uri.toString(),
+        },
+        position: editor.selection.active
+      };
+    }
+    commands.registerTextEditorCommand('cquery.callHierarchy', (editor) => {
+      showCallHierarchy(
+          editor.document.uri, getEditorTarget(editor), false /*callee*/);
+    });
+    commands.registerTextEditorCommand('cquery.calleeHierarchy', (editor) => {
+      showCallHierarchy(
+          editor.document.uri, getEditorTarget(editor), true /*callee*/);
     });
+    commands.registerCommand('cquery.toggleCallHierarchyDirection', () => {
+      let root = callHierarchyProvider.root;
+      if (!root)
+        return;
+      showCallHierarchy(
+          callHierarchyProvider.documentUri, {id: root.id}, !root._isCallee);
+    });
+    function makeFilterToggle(name: keyof CallHierarchyFilter) {
+      return () => {
+        let filter = callHierarchyProvider.filter;
+        filter[name] = !filter[name];
+        context.workspaceState.update(kFilterStateKey, filter);
+
+        let root = callHierarchyProvider.root;
+        if (root) {
+          showCallHierarchy(
+              callHierarchyProvider.documentUri, {id: root.id},
+              root._isCallee);
+        }
+      };
+    }
+    commands.registerCommand(
+        'cquery.toggleCallHierarchyNormalCalls', makeFilterToggle('normal'));
+    commands.registerCommand(
+        'cquery.toggleCallHierarchyBaseCalls', makeFilterToggle('base'));
+    commands.registerCommand(
+        'cquery.toggleCallHierarchyDerivedCalls', makeFilterToggle('derived'));
     commands.registerCommand('cquery.closeCallHierarchy', (e) => {
       setContext('extension.cquery.callHierarchyVisible', false);
       callHierarchyProvider.root = undefined;
@@ -728,11 +2061,85 @@ export function activate(context: ExtensionContext) {
     });
   })();
 
+  // References view.
+  (() => {
+    window.registerTreeDataProvider('cquery.references', referencesProvider);
+    onReferencesChanged();
+
+    commands.registerCommand('cquery.filterReferences', () => {
+      let items = kReferenceRoleFilters.map(([name, role]) => {
+        let picked = (referencesProvider.roleFilter & role) != 0;
+        return {label: name, role: role, picked: picked};
+      });
+      window
+          .showQuickPick(items, {
+            canPickMany: true,
+            placeHolder:
+                'Show references with any of these roles (none shows all)'
+          })
+          .then(selected => {
+            if (!selected)
+              return;
+            let filter = 0;
+            selected.forEach(item => filter |= item.role);
+            referencesProvider.roleFilter = filter;
+            referencesProvider.onDidChangeEmitter.fire();
+          });
+    });
+
+    commands.registerCommand('cquery.showReferencesHistory', () => {
+      const kClear = 'Clear History';
+      let items: Array<QuickPickItem&{query?: ReferenceQuery}> =
+          referencesProvider.history.map(query => {
+            return {
+              label: query.title,
+              description: query.locations ?
+                  `${query.locations.length} results` :
+                  'not loaded',
+              detail: new Date(query.time).toLocaleString(),
+              query: query
+            };
+          });
+      items.push({label: kClear});
+      window.showQuickPick(items).then(selected => {
+        if (!selected)
+          return;
+        let query = selected.query;
+        if (!query) {
+          referencesProvider.clear();
+          onReferencesChanged();
+          return;
+        }
+        if (query.locations) {
+          referencesProvider.show(query);
+          onReferencesChanged();
+          return;
+        }
+        // Queries restored from the workspace state are sent again.
+        let uri = parseUri(query.params.textDocument.uri);
+        let languageClient = clientManager.getClientForUri(uri);
+        if (!languageClient)
+          return;
+        languageClient.sendRequest(query.method, query.params)
+            .then((locations: ReferenceLocation[]) => {
+              query.locations = locations;
+              referencesProvider.show(query);
+              onReferencesChanged();
+            });
+      });
+    });
+
+    // Hides the view; the history is kept.
+    commands.registerCommand('cquery.closeReferences', () => {
+      setContext('extension.cquery.referencesVisible', false);
+    });
+  })();
+
   // Common between tree views.
   (() => {
     commands.registerCommand(
         'cquery.gotoForTreeView',
-        (node: InheritanceHierarchyNode|CallHierarchyNode) => {
+        (node: InheritanceHierarchyNode|CallHierarchyNode|ReferenceNode) => {
           if (!node.location)
             return;
 
@@ -772,175 +2179,481 @@ export function activate(context: ExtensionContext) {
         });
   })();
 
+  // Hierarchy export.
+  (() => {
+    class HierarchyPick implements QuickPickItem {
+      constructor(
+          public label: string,
+          public build: (depth: number) => Promise<HierarchyGraph>) {}
+    }
+    class FormatPick implements QuickPickItem {
+      constructor(
+          public label: string, public description: string,
+          public format: ExportFormat, public extension: string) {}
+    }
+
+    commands.registerCommand('cquery.exportHierarchy', () => {
+      let hierarchies: HierarchyPick[] = [];
+      if (callHierarchyProvider.root) {
+        hierarchies.push(new HierarchyPick(
+            'Call Hierarchy',
+            (depth) => buildHierarchyGraph(
+                callHierarchyProvider, callHierarchyAdapter,
+                callHierarchyProvider.root, depth)));
+      }
+      if (inheritanceHierarchyProvider.root) {
+        hierarchies.push(new HierarchyPick(
+            'Inheritance Hierarchy',
+            (depth) => buildHierarchyGraph(
+                inheritanceHierarchyProvider, inheritanceHierarchyAdapter,
+                inheritanceHierarchyProvider.root, depth)));
+      }
+      if (hierarchies.length == 0) {
+        window.showInformationMessage(
+            'Open a call or inheritance hierarchy before exporting it.');
+        return;
+      }
+
+      let formats = [
+        new FormatPick('Graphviz', 'DOT', ExportFormat.Dot, 'dot'),
+        new FormatPick('Mermaid', 'graph', ExportFormat.Mermaid, 'mmd'),
+        new FormatPick('JSON', 'nodes and edges', ExportFormat.Json, 'json'),
+      ];
+
+      let hierarchy: HierarchyPick;
+      let depth: number;
+      let format: FormatPick;
+      let graph: HierarchyGraph;
+      let pickHierarchy = hierarchies.length == 1 ?
+          Promise.resolve(hierarchies[0]) :
+          window.showQuickPick(hierarchies);
+      pickHierarchy
+          .then((selected: HierarchyPick) => {
+            hierarchy = selected;
+            if (!hierarchy)
+              return;
+            return window.showInputBox({
+              prompt: 'Number of levels to export',
+              value: '5',
+              validateInput: (value) => /^[1-9][0-9]*$/.test(value) ?
+                  undefined :
+                  'Enter a positive number'
+            });
+          })
+          .then((value: string) => {
+            if (!value)
+              return;
+            depth = parseInt(value);
+            return window.showQuickPick(formats);
+          })
+          .then((selected: FormatPick) => {
+            format = selected;
+            if (!format)
+              return;
+            return window.withProgress(
+                {
+                  location: ProgressLocation.Notification,
+                  title: `Exporting ${hierarchy.label}`
+                },
+                () => hierarchy.build(depth));
+          })
+          .then((result: HierarchyGraph) => {
+            graph = result;
+            if (!graph)
+              return;
+            return window.showSaveDialog({
+              filters: {[format.label]: [format.extension]}
+            });
+          })
+          .then((uri: Uri) => {
+            if (!uri)
+              return;
+            fs.writeFile(
+                uri.fsPath, formatHierarchyGraph(graph, format.format), (e) => {
+                  if (e)
+                    window.showErrorMessage(
+                        `Failed to export hierarchy: ${e.message}`);
+                  else
+                    window.showInformationMessage(
+                        `Exported ${graph.nodes.size} symbols to ${
+                            uri.fsPath}`);
+                });
+          })
+          .then(undefined, err => {
+            window.showErrorMessage(
+                `Failed to export hierarchy: ${err.message || err}`);
+          });
+    });
+  })();
+
   // Semantic highlighting
   // TODO:
   //   - enable bold/italic decorators, might need change in vscode
   //   - only function call icon if the call is implicit
   (() => {
-    function makeSemanticDecorationType(
-        color: Nullable<string>, underline: boolean, italic: boolean,
-        bold: boolean): TextEditorDecorationType {
-      let opts: any = {};
-      opts.rangeBehavior = DecorationRangeBehavior.ClosedClosed;
-      opts.color = color;
-      if (underline == true)
-        opts.textDecoration = 'underline';
-      if (italic == true)
-        opts.fontStyle = 'italic';
-      if (bold == true)
-        opts.fontWeight = 'bold';
-      return window.createTextEditorDecorationType(
-          <DecorationRenderOptions>opts);
-    };
+    function makeRules() {
+      return makeHighlightingRules(
+          getActiveHighlightingPreset(context.extensionPath));
+    }
+    let highlightingRules = makeRules();
+
+    // Rebuild decorations when styles or the color theme change. Disposing the
+    // old decoration types removes them from every editor, so apply them
+    // again.
+    context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+      if (!e.affectsConfiguration('cquery.highlighting') &&
+          !e.affectsConfiguration('workbench.colorTheme'))
+        return;
+      highlightingRules.forEach(rule => rule.dispose());
+      highlightingRules = makeRules();
+      applySemanticHighlighting(window.visibleTextEditors);
+    }));
 
-    function makeDecorations(type: string) {
-      let config = workspace.getConfiguration('cquery');
-      let colors = config.get(`highlighting.colors.${type}`, []);
-      let u = config.get(`highlighting.underline.${type}`, false);
-      let i = config.get(`highlighting.italic.${type}`, false);
-      let b = config.get(`highlighting.bold.${type}`, false);
-      return colors.map(c => makeSemanticDecorationType(c, u, i, b));
-    };
-    let semanticDecorations = new Map<string, TextEditorDecorationType[]>();
-    let semanticEnabled = new Map<string, boolean>();
-    for (let type of
-             ['types', 'freeStandingFunctions', 'freeStandingFunctionDeclarations',
-              'memberFunctions', 'memberFunctionDeclarations',
-              'freeStandingVariables', 'memberVariables', 'namespaces',
-              'macros', 'enums', 'typeAliases', 'enumConstants',
-              'staticMemberFunctions', 'staticMemberFunctionDeclarations',
-              'parameters', 'templateParameters', 'staticMemberVariables', 
-              'globalVariables']) {
-      semanticDecorations.set(type, makeDecorations(type));
-      semanticEnabled.set(type, false);
-    }
-
-    function updateConfigValues() {
-      // Fetch new config instance, since vscode will cache the previous one.
-      let config = workspace.getConfiguration('cquery');
-      for (let [name, value] of semanticEnabled) {
-        semanticEnabled.set(
-            name, config.get(`highlighting.enabled.${name}`, false));
-      }
-    };
-    updateConfigValues();
+    commands.registerCommand('cquery.selectHighlightingPreset', () => {
+      const kNone = '(none)';
+      let presets = loadHighlightingPresets(context.extensionPath);
+      let items: QuickPickItem[] = presets.map(
+          preset => ({label: preset.name, description: preset.description}));
+      items.unshift({
+        label: kNone,
+        description: 'Use the individual cquery.highlighting settings'
+      });
+      window.showQuickPick(items).then(selected => {
+        if (!selected)
+          return;
+        workspace.getConfiguration('cquery').update(
+            'highlighting.preset',
+            selected.label == kNone ? '' : selected.label,
+            ConfigurationTarget.Global);
+      });
+    });
 
-    function tryFindDecoration(symbol: SemanticSymbol):
-        Nullable<TextEditorDecorationType> {
-      function get(name: string) {
-        if (!semanticEnabled.get(name))
-          return undefined;
-        let decorations = semanticDecorations.get(name);
-        return decorations[symbol.stableId % decorations.length];
-      };
+    commands.registerCommand('cquery.importHighlightingPreset', () => {
+      window
+          .showOpenDialog({
+            canSelectMany: false,
+            filters: {'Highlighting preset': ['json']}
+          })
+          .then(uris => {
+            if (!uris || uris.length == 0)
+              return;
+            let file = uris[0].fsPath;
+            let preset: HighlightingPreset;
+            try {
+              preset = readHighlightingPreset(file);
+            } catch (e) {
+              window.showErrorMessage(
+                  `Failed to import highlighting preset: ${e.message}`);
+              return;
+            }
 
-      function isDeclaration(role: number) {
-        return (role & SymbolRole.Declaration) != 0 || (role & SymbolRole.Definition) != 0;
-      };
+            let config = workspace.getConfiguration('cquery');
+            let files = config.get<string[]>('highlighting.presetFiles', []);
+            if (files.indexOf(file) < 0)
+              files = files.concat([file]);
+            config
+                .update(
+                    'highlighting.presetFiles', files,
+                    ConfigurationTarget.Global)
+                .then(
+                    () => config.update(
+                        'highlighting.preset', preset.name,
+                        ConfigurationTarget.Global))
+                .then(
+                    () => window.showInformationMessage(
+                        `Using highlighting preset "${preset.name}".`));
+          });
+    });
 
-      if (symbol.kind == SymbolKind.Class || symbol.kind == SymbolKind.Struct) {
-        return get('types');
-      } else if (symbol.kind == SymbolKind.Enum) {
-        return get('enums');
-      } else if (symbol.kind == SymbolKind.TypeAlias) {
-        return get('typeAliases');
-      } else if (symbol.kind == SymbolKind.TypeParameter) {
-        return get('templateParameters');
-      } else if (symbol.kind == SymbolKind.Function) {
-        if (isDeclaration(symbol.role)) {
-          return get('freeStandingFunctionDeclarations');
-        }
-        return get('freeStandingFunctions');
-      } else if (
-          symbol.kind == SymbolKind.Method ||
-          symbol.kind == SymbolKind.Constructor) {
-        if (isDeclaration(symbol.role)) {
-          return get('memberFunctionDeclarations');
-        }
-        return get('memberFunctions')
-      } else if (symbol.kind == SymbolKind.StaticMethod) {
-        if (isDeclaration(symbol.role)) {
-          return get('staticMemberFunctionDeclarations');
-        }
-        return get('staticMemberFunctions')
-      } else if (symbol.kind == SymbolKind.Variable) {
-        if (symbol.parentKind == SymbolKind.Function ||
-            symbol.parentKind == SymbolKind.Method ||
-            symbol.parentKind == SymbolKind.Constructor) {
-          return get('freeStandingVariables');
+    // Exports the effective styles, ie, including the active preset and theme
+    // colors, so they can be shared as a preset.
+    commands.registerCommand('cquery.exportHighlightingPreset', () => {
+      let activePreset = getActiveHighlightingPreset(context.extensionPath);
+      window
+          .showInputBox({
+            prompt: 'Name of the exported highlighting preset',
+            value: activePreset ? activePreset.name : 'My preset'
+          })
+          .then(name => {
+            if (!name)
+              return;
+            let preset: HighlightingPreset = {name: name, categories: {}};
+            if (activePreset && activePreset.description)
+              preset.description = activePreset.description;
+            for (let [category, _] of kHighlightingCategories)
+              preset.categories[category] =
+                  getCategoryStyle(category, activePreset);
+            let rules = (activePreset && activePreset.rules) || [];
+            if (rules.length > 0)
+              preset.rules = rules;
+
+            return window
+                .showSaveDialog({filters: {'Highlighting preset': ['json']}})
+                .then(uri => {
+                  if (!uri)
+                    return;
+                  fs.writeFile(
+                      uri.fsPath, JSON.stringify(preset, null, 2) + '\n',
+                      err => {
+                        if (err)
+                          window.showErrorMessage(
+                              `Failed to export highlighting preset: ${
+                                  err.message}`);
+                        else
+                          window.showInformationMessage(
+                              `Exported highlighting preset to ${
+                                  uri.fsPath}`);
+                      });
+                });
+          });
+    });
+
+    // Toggled with cquery.toggleSemanticHighlighting for this session.
+    let highlightingHidden = false;
+    commands.registerCommand('cquery.toggleSemanticHighlighting', () => {
+      highlightingHidden = !highlightingHidden;
+      applySemanticHighlighting(window.visibleTextEditors);
+    });
+
+    function applySemanticHighlighting(editors: TextEditor[]) {
+      for (let visibleEditor of editors) {
+        let args =
+            semanticHighlightingCache.get(visibleEditor.document.uri.toString());
+        if (!args)
+          continue;
+
+        let decorations = new Map<TextEditorDecorationType, Array<Range>>();
+
+        // Hidden highlighting is cleared below.
+        let symbols = highlightingHidden ? [] : args.symbols;
+        for (let symbol of symbols) {
+          let rule = findHighlightingRule(highlightingRules, symbol);
+          let type = rule && rule.getDecoration(symbol);
+          if (!type)
+            continue;
+          if (decorations.has(type)) {
+            let existing = decorations.get(type);
+            for (let range of symbol.ranges)
+              existing.push(range);
+          } else {
+            decorations.set(type, symbol.ranges.slice());
+          }
         }
-        return get('globalVariables');
-      } else if (symbol.kind == SymbolKind.Field) {
-        if (symbol.storage == StorageClass.Static) {
-          return get('staticMemberVariables');
+
+        // Clear decorations and set new ones. We might not use all of the
+        // decorations so clear before setting.
+        for (let rule of highlightingRules) {
+          rule.decorations.forEach((type) => {
+            visibleEditor.setDecorations(type, []);
+          });
         }
-        return get('memberVariables');
-      } else if (symbol.kind == SymbolKind.Parameter) {
-        return get('parameters');
-      } else if (symbol.kind == SymbolKind.EnumMember) {
-        return get('enumConstants');
-      } else if (symbol.kind == SymbolKind.Namespace) {
-        return get('namespaces');
-      } else if (symbol.kind == SymbolKind.Macro) {
-        return get('macros');
+        // Set new decorations.
+        decorations.forEach((ranges, type) => {
+          visibleEditor.setDecorations(type, ranges);
+        });
       }
-    };
+    }
+
+    context.subscriptions.push(
+        window.onDidChangeVisibleTextEditors(applySemanticHighlighting));
+    context.subscriptions.push(workspace.onDidCloseTextDocument(document => {
+      semanticHighlightingCache.delete(document.uri.toString());
+    }));
 
-    class PublishSemanticHighlightingArgs {
-      readonly uri: string;
-      readonly symbols: SemanticSymbol[];
+    // Semantic symbol inspector. Uses the last published highlighting, so it
+    // shows exactly what the highlighting is based on.
+    function inspectSymbolAt(document: TextDocument, position: Position) {
+      let args = semanticHighlightingCache.get(document.uri.toString());
+      if (!args)
+        return undefined;
+      let found = findSemanticSymbolAt(args, position);
+      if (!found)
+        return undefined;
+      let [symbol, range] = found;
+      let rule = findHighlightingRule(highlightingRules, symbol);
+      return {
+        range: range,
+        name: document.getText(range),
+        fields: describeSemanticSymbol(symbol, rule)
+      };
     }
-    languageClient.onReady().then(() => {
-      languageClient.onNotification(
-          '$cquery/publishSemanticHighlighting',
-          (args: PublishSemanticHighlightingArgs) => {
-            updateConfigValues();
 
-            for (let visibleEditor of window.visibleTextEditors) {
-              if (args.uri != visibleEditor.document.uri.toString())
-                continue;
+    commands.registerCommand('cquery.inspectSemanticSymbol', () => {
+      let editor = window.activeTextEditor;
+      if (!editor)
+        return;
+      let inspection =
+          inspectSymbolAt(editor.document, editor.selection.active);
+      if (!inspection) {
+        window.showInformationMessage(
+            semanticHighlightingCache.has(editor.document.uri.toString()) ?
+                'No semantic symbol under the cursor.' :
+                'cquery has not published semantic highlighting for this ' +
+                    'file; enable a cquery.highlighting category or rule.');
+        return;
+      }
+      window.showQuickPick(
+          inspection.fields.map(
+              ([field, value]) => ({label: value, description: field})),
+          {placeHolder: `Semantic symbol ${inspection.name}`});
+    });
 
-              let decorations =
-                  new Map<TextEditorDecorationType, Array<Range>>();
-
-              for (let symbol of args.symbols) {
-                let type = tryFindDecoration(symbol);
-                if (!type)
-                  continue;
-                if (decorations.has(type)) {
-                  let existing = decorations.get(type);
-                  for (let range of symbol.ranges)
-                    existing.push(range);
-                } else {
-                  decorations.set(type, symbol.ranges);
-                }
-              }
+    context.subscriptions.push(languages.registerHoverProvider(kLanguageIds, {
+      provideHover(document: TextDocument, position: Position) {
+        if (!workspace.getConfiguration('cquery').get(
+                'highlighting.inspectOnHover', false))
+          return undefined;
+        let inspection = inspectSymbolAt(document, position);
+        if (!inspection)
+          return undefined;
+        let markdown = new MarkdownString();
+        markdown.appendMarkdown('**cquery semantic symbol**\n\n');
+        for (let [field, value] of inspection.fields)
+          markdown.appendMarkdown(`${field}: \`${value}\`  \n`);
+        return new Hover(markdown, inspection.range);
+      }
+    }));
+    clientManager.onDidStartClient(({client: languageClient}) => {
+      languageClient.onReady().then(() => {
+        languageClient.onNotification(
+            '$cquery/publishSemanticHighlighting',
+            (args: PublishSemanticHighlightingArgs) => {
+              // Store ranges as vscode ranges.
+              let symbols = args.symbols.map(
+                  symbol => new SemanticSymbol(
+                      symbol.stableId, symbol.parentKind, symbol.kind,
+                      symbol.isTypeMember, symbol.storage, symbol.role,
+                      symbol.ranges.map(p2c.asRange)));
+              semanticHighlightingCache.set(
+                  args.uri, {uri: args.uri, symbols: symbols});
+              applySemanticHighlighting(window.visibleTextEditors.filter(
+                  e => e.document.uri.toString() == args.uri));
+            });
+      });
+    });
+  })();
 
-              // Clear decorations and set new ones. We might not use all of the
-              // decorations so clear before setting.
-              for (let [_, decorations] of semanticDecorations) {
-                decorations.forEach((type) => {
-                  visibleEditor.setDecorations(type, []);
-                });
-              }
-              // Set new decorations.
-              decorations.forEach((ranges, type) => {
-                visibleEditor.setDecorations(type, ranges);
-              });
-            }
-          });
+  // Occurrence highlighting and navigation, computed from the cached semantic
+  // highlighting so no server round trip is needed.
+  (() => {
+    let readDecorationType = window.createTextEditorDecorationType({
+      backgroundColor: new ThemeColor('editor.wordHighlightBackground'),
+      rangeBehavior: DecorationRangeBehavior.ClosedClosed
+    });
+    let writeDecorationType = window.createTextEditorDecorationType({
+      backgroundColor: new ThemeColor('editor.wordHighlightStrongBackground'),
+      rangeBehavior: DecorationRangeBehavior.ClosedClosed
     });
+    context.subscriptions.push(readDecorationType, writeDecorationType);
+
+    // Returns the sorted ranges of the symbol under the cursor of |editor|.
+    function getOccurrences(editor: TextEditor): Range[] {
+      let args = semanticHighlightingCache.get(editor.document.uri.toString());
+      if (!args)
+        return [];
+      let found = findSemanticSymbolAt(args, editor.selection.active);
+      if (!found)
+        return [];
+      return found[0].ranges.slice().sort((a, b) => a.start.compareTo(b.start));
+    }
+
+    // The server only reports the roles of a symbol as a whole, so if it is
+    // written anywhere guess which occurrences are writes from the operator
+    // next to them.
+    function isWrite(document: TextDocument, range: Range): boolean {
+      let line = document.lineAt(range.start.line).text;
+      let before = line.substr(0, range.start.character);
+      let after = line.substr(range.end.character);
+      if (/(\+\+|--)\s*$/.test(before))
+        return true;
+      return /^\s*(\+\+|--|(<<|>>|[-+*\/%&|^])?=(?!=))/.test(after);
+    }
+
+    function updateOccurrences(editor: TextEditor) {
+      if (!editor)
+        return;
+      let read: Range[] = [];
+      let write: Range[] = [];
+      if (workspace.getConfiguration('cquery').get(
+              'highlighting.occurrences', false)) {
+        let args =
+            semanticHighlightingCache.get(editor.document.uri.toString());
+        let found = args && findSemanticSymbolAt(args, editor.selection.active);
+        if (found) {
+          let [symbol, _] = found;
+          let mayWrite = (symbol.role & SymbolRole.Write) != 0;
+          for (let range of symbol.ranges) {
+            if (mayWrite && isWrite(editor.document, range))
+              write.push(range);
+            else
+              read.push(range);
+          }
+        }
+      }
+      editor.setDecorations(readDecorationType, read);
+      editor.setDecorations(writeDecorationType, write);
+    }
+
+    context.subscriptions.push(window.onDidChangeTextEditorSelection(
+        e => updateOccurrences(e.textEditor)));
+    context.subscriptions.push(window.onDidChangeActiveTextEditor(
+        editor => updateOccurrences(editor)));
+    context.subscriptions.push(workspace.onDidChangeConfiguration(e => {
+      if (e.affectsConfiguration('cquery.highlighting.occurrences'))
+        window.visibleTextEditors.forEach(updateOccurrences);
+    }));
+    // Cached ranges are stale until the server publishes highlighting for the
+    // edited document again.
+    context.subscriptions.push(workspace.onDidChangeTextDocument(e => {
+      for (let editor of window.visibleTextEditors) {
+        if (editor.document == e.document) {
+          editor.setDecorations(readDecorationType, []);
+          editor.setDecorations(writeDecorationType, []);
+        }
+      }
+    }));
+
+    function gotoOccurrence(forward: boolean) {
+      let editor = window.activeTextEditor;
+      if (!editor)
+        return;
+      let occurrences = getOccurrences(editor);
+      if (occurrences.length == 0) {
+        window.showInformationMessage('No semantic symbol under the cursor.');
+        return;
+      }
+      let cursor = editor.selection.active;
+      let current = occurrences.findIndex(range => range.contains(cursor));
+      let next: number;
+      if (current >= 0) {
+        next = current + (forward ? 1 : -1);
+      } else {
+        next = occurrences.findIndex(range => range.start.isAfter(cursor));
+        if (next < 0)
+          next = occurrences.length;
+        if (!forward)
+          next -= 1;
+      }
+      // Wrap around at the start and end of the document.
+      let target =
+          occurrences[(next + occurrences.length) % occurrences.length];
+      editor.selection = new Selection(target.start, target.start);
+      editor.revealRange(
+          target, TextEditorRevealType.InCenterIfOutsideViewport);
+    }
+
+    commands.registerCommand(
+        'cquery.nextOccurrence', () => gotoOccurrence(true));
+    commands.registerCommand(
+        'cquery.previousOccurrence', () => gotoOccurrence(false));
   })();
 
   // Send $cquery/textDocumentDidView. Always send a notification - this will
   // result in some extra work, but it shouldn't be a problem in practice.
   (() => {
-    window.onDidChangeVisibleTextEditors(visible => {
-      for (let editor of visible) {
-        languageClient.sendNotification(
-            '$cquery/textDocumentDidView',
-            {textDocumentUri: editor.document.uri.toString()});
-      }
-    });
+    window.onDidChangeVisibleTextEditors(sendTextDocumentDidView);
   })();
+
+  for (let folder of getFolders())
+    clientManager.start(folder);
 }
@@ -0,0 +1,164 @@
+import { Location, TreeDataProvider, workspace } from 'vscode';
+import { CallHierarchyNode } from './callHierarchy';
+import { parseUri } from './extension';
+import { InheritanceHierarchyNode } from './inheritanceHierarchy';
+
+export enum ExportFormat {
+  Dot = 'dot',
+  Mermaid = 'mermaid',
+  Json = 'json'
+}
+
+// Describes how to turn the nodes of a tree view into graph nodes and edges.
+export interface HierarchyAdapter<T> {
+  // Returns a key which is identical for every occurrence of the same symbol.
+  // Nodes without a key only group their children, which are attached to the
+  // parent of the grouping node instead.
+  key(node: T): string | undefined
+  // If true the edge points from |node| to its parent, otherwise from the
+  // parent to |node|.
+  pointsToParent(node: T): boolean
+}
+
+export const callHierarchyAdapter: HierarchyAdapter<CallHierarchyNode> = {
+  key: (node) => node.id === undefined ? undefined : `${node.id}`,
+  // Callers call their parent; callees are called by their parent.
+  pointsToParent: (node) => !node._isCallee
+};
+
+export const inheritanceHierarchyAdapter:
+  HierarchyAdapter<InheritanceHierarchyNode> = {
+  key: (node) =>
+    node.id === undefined ? undefined : `${node.kind}:${node.id}`,
+  // Edges always point from the derived type to the base type.
+  pointsToParent: (node) => node._wantsDerived
+};
+
+class GraphNode {
+  constructor(
+    readonly key: string, readonly name: string, readonly location: string) { }
+}
+
+class GraphEdge {
+  constructor(readonly from: string, readonly to: string) { }
+}
+
+export class HierarchyGraph {
+  root: string
+  nodes = new Map<string, GraphNode>();
+  edges = new Map<string, GraphEdge>();
+}
+
+function formatLocation(location: Location): string {
+  if (!location)
+    return '';
+  let uri = parseUri(location.uri);
+  return `${workspace.asRelativePath(uri)}:${location.range.start.line + 1}`;
+}
+
+// Walks |root| up to |maxDepth| levels deep. Nodes which have not been expanded
+// yet are requested through |provider|. Every symbol is only expanded once, so
+// recursive calls do not loop forever.
+export function buildHierarchyGraph<T extends { name: string, location: Location }>(
+  provider: TreeDataProvider<T>, adapter: HierarchyAdapter<T>, root: T,
+  maxDepth: number): Promise<HierarchyGraph> {
+  let graph = new HierarchyGraph();
+
+  function addNode(node: T, key: string): boolean {
+    if (graph.nodes.has(key))
+      return false;
+    graph.nodes.set(
+      key, new GraphNode(key, node.name, formatLocation(node.location)));
+    return true;
+  }
+
+  function visit(node: T, key: string, depth: number): Promise<void> {
+    if (depth >= maxDepth)
+      return Promise.resolve();
+
+    return Promise.resolve(provider.getChildren(node)).then(children => {
+      return Promise.all((children || []).map(child => {
+        let childKey = adapter.key(child);
+        if (childKey === undefined)
+          return visit(child, key, depth);
+
+        let isNew = addNode(child, childKey);
+        let edge = adapter.pointsToParent(child) ?
+          new GraphEdge(childKey, key) :
+          new GraphEdge(key, childKey);
+        graph.edges.set(`${edge.from}->${edge.to}`, edge);
+        if (!isNew)
+          return Promise.resolve();
+        return visit(child, childKey, depth + 1);
+      }));
+    }).then(() => { });
+  }
+
+  graph.root = adapter.key(root);
+  addNode(root, graph.root);
+  return visit(root, graph.root, 0).then(() => graph);
+}
+
+function formatDot(graph: HierarchyGraph): string {
+  function quote(value: string) {
+    return '"' + value.replace(/\\/g, '\\\\').replace(/"/g, '\\"') + '"';
+  }
+
+  let ids = new Map<string, string>();
+  let lines = ['digraph hierarchy {', '  rankdir=LR;', '  node [shape=box];'];
+  for (let node of graph.nodes.values()) {
+    let id = `n${ids.size}`;
+    ids.set(node.key, id);
+    let label = node.location ? `${node.name}\n${node.location}` : node.name;
+    let style = node.key == graph.root ? ', style=bold' : '';
+    lines.push(`  ${id} [label=${quote(label)}${style}];`);
+  }
+  for (let edge of graph.edges.values())
+    lines.push(`  ${ids.get(edge.from)} -> ${ids.get(edge.to)};`);
+  lines.push('}');
+  return lines.join('\n') + '\n';
+}
+
+function formatMermaid(graph: HierarchyGraph): string {
+  function quote(value: string) {
+    return '"' + value.replace(/"/g, '#quot;') + '"';
+  }
+
+  let ids = new Map<string, string>();
+  let lines = ['graph LR'];
+  for (let node of graph.nodes.values()) {
+    let id = `n${ids.size}`;
+    ids.set(node.key, id);
+    let label =
+      node.location ? `${node.name}<br/>${node.location}` : node.name;
+    lines.push(`  ${id}[${quote(label)}]`);
+  }
+  for (let edge of graph.edges.values())
+    lines.push(`  ${ids.get(edge.from)} --> ${ids.get(edge.to)}`);
+  return lines.join('\n') + '\n';
+}
+
+function formatJson(graph: HierarchyGraph): string {
+  let result = {
+    root: graph.root,
+    nodes: Array.from(graph.nodes.values()).map(n => ({
+      id: n.key,
+      name: n.name,
+      location: n.location
+    })),
+    edges: Array.from(graph.edges.values())
+  };
+  return JSON.stringify(result, null, 2) + '\n';
+}
+
+export function formatHierarchyGraph(
+  graph: HierarchyGraph, format: ExportFormat): string {
+  switch (format) {
+    case ExportFormat.Dot:
+      return formatDot(graph);
+    case ExportFormat.Mermaid:
+      return formatMermaid(graph);
+    case ExportFormat.Json:
+      return formatJson(graph);
+  }
+}
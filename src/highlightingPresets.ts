@@ -0,0 +1,253 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {extensions, window, workspace} from 'vscode';
+
+import {HighlightingRule} from './semanticHighlighting';
+import {resolveVariables} from './variableResolver';
+
+// Style of one of the built-in highlighting categories inside of a preset.
+export interface CategoryStyle {
+  // Categories listed in a preset are enabled unless this is false.
+  enabled?: boolean
+  light?: string[]
+  dark?: string[]
+  underline?: boolean
+  italic?: boolean
+  bold?: boolean
+}
+
+// A named set of highlighting styles. Presets are either bundled with the
+// extension or loaded from |cquery.highlighting.presetFiles|.
+export interface HighlightingPreset {
+  name: string
+  description?: string
+  categories?: {[category: string]: CategoryStyle}
+  rules?: HighlightingRule[]
+}
+
+// Files which failed to load, so the warning is only shown once per session.
+let reportedPresetFiles = new Set<string>();
+
+// Parses JSON which may contain comments and trailing commas, as is common for
+// vscode themes and settings.
+function parseJsonWithComments(text: string): any {
+  let result = '';
+  let inString = false;
+  for (let i = 0; i < text.length; ++i) {
+    let c = text[i];
+    if (inString) {
+      result += c;
+      if (c == '\\') {
+        result += text[++i];
+      } else if (c == '"') {
+        inString = false;
+      }
+    } else if (c == '"') {
+      inString = true;
+      result += c;
+    } else if (c == '/' && text[i + 1] == '/') {
+      while (i < text.length && text[i] != '\n')
+        ++i;
+      result += '\n';
+    } else if (c == '/' && text[i + 1] == '*') {
+      i = text.indexOf('*/', i + 2);
+      if (i < 0)
+        break;
+      ++i;
+    } else {
+      result += c;
+    }
+  }
+  return JSON.parse(result.replace(/,(\s*[}\]])/g, '$1'));
+}
+
+// Reads the preset stored in |file|. Throws if the file is not a valid preset.
+export function readHighlightingPreset(file: string): HighlightingPreset {
+  let preset: HighlightingPreset =
+      parseJsonWithComments(fs.readFileSync(file, 'utf8'));
+  if (!preset || typeof (preset.name) != 'string')
+    throw new Error('the preset has no "name"');
+  return preset;
+}
+
+function readPresetFile(file: string): HighlightingPreset|undefined {
+  try {
+    return readHighlightingPreset(file);
+  } catch (e) {
+    if (!reportedPresetFiles.has(file)) {
+      reportedPresetFiles.add(file);
+      window.showWarningMessage(
+          `Failed to load cquery highlighting preset ${file}: ${e.message}`);
+    }
+    return undefined;
+  }
+}
+
+function getBundledPresetDirectory(extensionPath: string) {
+  return path.join(extensionPath, 'resources', 'highlightingPresets');
+}
+
+// Returns the bundled presets followed by the user presets. User presets with
+// the same name replace bundled ones.
+export function loadHighlightingPresets(extensionPath: string):
+    HighlightingPreset[] {
+  let files: string[] = [];
+  let bundledDirectory = getBundledPresetDirectory(extensionPath);
+  if (fs.existsSync(bundledDirectory)) {
+    for (let file of fs.readdirSync(bundledDirectory).sort()) {
+      if (path.extname(file) == '.json')
+        files.push(path.join(bundledDirectory, file));
+    }
+  }
+  let config = workspace.getConfiguration('cquery');
+  for (let file of config.get<string[]>('highlighting.presetFiles', []))
+    files.push(resolveVariables(file, undefined));
+
+  let presets = new Map<string, HighlightingPreset>();
+  for (let file of files) {
+    let preset = readPresetFile(file);
+    if (preset)
+      presets.set(preset.name, preset);
+  }
+  return Array.from(presets.values());
+}
+
+// Returns the preset selected by |cquery.highlighting.preset|, if any.
+export function getActiveHighlightingPreset(extensionPath: string):
+    HighlightingPreset|undefined {
+  let config = workspace.getConfiguration('cquery');
+  let name = config.get<string>('highlighting.preset', '');
+  if (!name)
+    return undefined;
+  for (let preset of loadHighlightingPresets(extensionPath)) {
+    if (preset.name == name)
+      return preset;
+  }
+  if (!reportedPresetFiles.has(name)) {
+    reportedPresetFiles.add(name);
+    window.showWarningMessage(
+        `Unknown cquery highlighting preset "${name}"; check ` +
+        'cquery.highlighting.preset and cquery.highlighting.presetFiles.');
+  }
+  return undefined;
+}
+
+// TextMate scopes used to color each highlighting category when colors are
+// derived from the color theme, most specific first.
+const kCategoryScopes: {[category: string]: string[]} = {
+  types: ['entity.name.type.class', 'entity.name.class', 'entity.name.type'],
+  freeStandingFunctions: ['entity.name.function', 'support.function'],
+  freeStandingFunctionDeclarations:
+      ['entity.name.function', 'support.function'],
+  memberFunctions: ['entity.name.function.member', 'entity.name.function'],
+  memberFunctionDeclarations:
+      ['entity.name.function.member', 'entity.name.function'],
+  staticMemberFunctions:
+      ['entity.name.function.member', 'entity.name.function'],
+  staticMemberFunctionDeclarations:
+      ['entity.name.function.member', 'entity.name.function'],
+  freeStandingVariables: ['variable.other.local', 'variable.other', 'variable'],
+  memberVariables:
+      ['variable.other.member', 'variable.other.property', 'variable.other'],
+  staticMemberVariables:
+      ['variable.other.member', 'variable.other.property', 'variable.other'],
+  globalVariables: ['variable.other.global', 'variable.other', 'variable'],
+  namespaces: ['entity.name.namespace', 'entity.name.type.namespace'],
+  macros: [
+    'entity.name.function.preprocessor', 'meta.preprocessor',
+    'keyword.control.directive'
+  ],
+  enums: ['entity.name.type.enum', 'entity.name.type'],
+  typeAliases: ['entity.name.type.typedef', 'entity.name.type'],
+  enumConstants:
+      ['variable.other.enummember', 'constant.other.enum', 'constant.other'],
+  parameters: ['variable.parameter'],
+  templateParameters: ['entity.name.type.template', 'entity.name.type'],
+};
+
+class TokenColor {
+  constructor(readonly selector: string, readonly foreground: string) {}
+}
+
+// Theme colors of the last loaded theme; themes only change rarely.
+let cachedThemeName: string;
+let cachedTokenColors: TokenColor[] = [];
+
+function readThemeTokenColors(file: string, depth = 0): TokenColor[] {
+  // Guard against include cycles.
+  if (depth > 10)
+    return [];
+  let theme = parseJsonWithComments(fs.readFileSync(file, 'utf8'));
+  let result: TokenColor[] = [];
+  if (typeof (theme.include) == 'string') {
+    result = readThemeTokenColors(
+        path.join(path.dirname(file), theme.include), depth + 1);
+  }
+  // tokenColors may also reference a .tmTheme file, which is not supported.
+  if (!Array.isArray(theme.tokenColors))
+    return result;
+
+  for (let entry of theme.tokenColors) {
+    let foreground = entry.settings && entry.settings.foreground;
+    if (!foreground || !entry.scope)
+      continue;
+    let scopes: string[] = Array.isArray(entry.scope) ?
+        entry.scope :
+        String(entry.scope).split(',');
+    for (let scope of scopes) {
+      scope = scope.trim();
+      // Only plain scope selectors are supported.
+      if (scope && scope.indexOf(' ') < 0)
+        result.push(new TokenColor(scope, foreground));
+    }
+  }
+  return result;
+}
+
+function getThemeTokenColors(): TokenColor[] {
+  let themeName =
+      workspace.getConfiguration('workbench').get<string>('colorTheme', '');
+  if (themeName == cachedThemeName)
+    return cachedTokenColors;
+  cachedThemeName = themeName;
+  cachedTokenColors = [];
+
+  for (let extension of extensions.all) {
+    let contributes = extension.packageJSON.contributes;
+    let themes = (contributes && contributes.themes) || [];
+    for (let theme of themes) {
+      if (theme.id != themeName && theme.label != themeName)
+        continue;
+      try {
+        cachedTokenColors = readThemeTokenColors(
+            path.join(extension.extensionPath, theme.path));
+      } catch (e) {
+        // Categories fall back to the cquery.highlighting.colors.* settings.
+      }
+      return cachedTokenColors;
+    }
+  }
+  return cachedTokenColors;
+}
+
+// Returns the foreground color the active color theme uses for |category|, or
+// undefined if the theme does not color any of the related scopes.
+export function getThemeColorForCategory(category: string): string|
+    undefined {
+  let tokenColors = getThemeTokenColors();
+  for (let scope of kCategoryScopes[category] || []) {
+    // TextMate selectors match their scope and every child scope; the most
+    // specific selector wins, then the one defined last.
+    let best: TokenColor;
+    for (let tokenColor of tokenColors) {
+      let selector = tokenColor.selector;
+      if (scope != selector && !scope.startsWith(selector + '.'))
+        continue;
+      if (!best || selector.length >= best.selector.length)
+        best = tokenColor;
+    }
+    if (best)
+      return best.foreground;
+  }
+  return undefined;
+}
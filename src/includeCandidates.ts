@@ -0,0 +1,100 @@
+import * as fs from 'fs';
+import * as path from 'path';
+import {RelativePattern, Uri, workspace} from 'vscode';
+import * as ls from 'vscode-languageserver-types';
+
+// One header cquery offers to include for a symbol.
+export class IncludeCandidate {
+  // The file the header was found at, if it was found.
+  resolvedPath: string|undefined;
+  // Number of directories between the including file and the header.
+  distance = Number.MAX_SAFE_INTEGER;
+
+  constructor(
+      readonly edit: ls.TextEdit, readonly header: string,
+      readonly angled: boolean) {}
+
+  // Headers included with <> which are not part of the workspace.
+  get isSystem(): boolean {
+    return this.angled && !this.isInWorkspace;
+  }
+
+  get isInWorkspace(): boolean {
+    return !!this.resolvedPath &&
+        !!workspace.getWorkspaceFolder(Uri.file(this.resolvedPath));
+  }
+
+  // ie, <vector> or "foo/bar.h".
+  get spelling(): string {
+    return this.angled ? `<${this.header}>` : `"${this.header}"`;
+  }
+}
+
+// Returns the header included by |newText|, ie, '#include <vector>\n'.
+function parseInclude(edit: ls.TextEdit): IncludeCandidate|undefined {
+  let match = /#\s*include\s*([<"])([^>"]+)[>"]/.exec(edit.newText);
+  if (!match)
+    return undefined;
+  return new IncludeCandidate(edit, match[2], match[1] == '<');
+}
+
+function countDirectories(from: string, to: string): number {
+  let relative = path.relative(from, path.dirname(to));
+  return relative ? relative.split(path.sep).length : 0;
+}
+
+// Finds |candidate| next to |file| or in the workspace folder of |file|,
+// preferring the closest match.
+function resolve(candidate: IncludeCandidate, file: Uri): Thenable<void> {
+  let directory = path.dirname(file.fsPath);
+  let sibling = path.join(directory, candidate.header);
+  if (fs.existsSync(sibling)) {
+    candidate.resolvedPath = sibling;
+    candidate.distance = 0;
+    return Promise.resolve();
+  }
+
+  let folder = workspace.getWorkspaceFolder(file);
+  if (!folder)
+    return Promise.resolve();
+  return workspace
+      .findFiles(
+          new RelativePattern(folder, `**/${candidate.header}`),
+          '**/node_modules/**', 20)
+      .then(uris => {
+        for (let uri of uris) {
+          let distance = countDirectories(directory, uri.fsPath);
+          if (distance < candidate.distance) {
+            candidate.resolvedPath = uri.fsPath;
+            candidate.distance = distance;
+          }
+        }
+      });
+}
+
+// Returns the includes cquery offers in |edits| for |file|, with project
+// headers closest to |file| first and system headers last.
+export function rankIncludeCandidates(
+    file: Uri, edits: ls.TextEdit[]): Thenable<IncludeCandidate[]> {
+  let candidates: IncludeCandidate[] = [];
+  for (let edit of edits) {
+    let candidate = parseInclude(edit);
+    if (candidate)
+      candidates.push(candidate);
+  }
+  return Promise.all(candidates.map(c => resolve(c, file))).then(() => {
+    function rank(c: IncludeCandidate) {
+      if (c.isSystem)
+        return 2;
+      return c.resolvedPath ? 0 : 1;
+    }
+    // Array.prototype.sort is not stable, so ties keep cquery's order by
+    // index.
+    return candidates
+        .map((candidate, index) => ({candidate: candidate, index: index}))
+        .sort((a, b) => rank(a.candidate) - rank(b.candidate) ||
+                  a.candidate.distance - b.candidate.distance ||
+                  a.index - b.index)
+        .map(entry => entry.candidate);
+  });
+}
@@ -0,0 +1,159 @@
+import * as fs from 'fs';
+import * as path from 'path';
+
+export class DirectoryStats {
+  files = 0;
+  bytes = 0;
+}
+
+function readdir(directory: string): Promise<string[]> {
+  return new Promise((resolve, reject) => {
+    fs.readdir(
+        directory, (err, entries) => err ? reject(err) : resolve(entries));
+  });
+}
+
+function lstat(file: string): Promise<fs.Stats> {
+  return new Promise((resolve, reject) => {
+    fs.lstat(file, (err, stats) => err ? reject(err) : resolve(stats));
+  });
+}
+
+function unlink(file: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.unlink(file, err => err ? reject(err) : resolve());
+  });
+}
+
+function rmdir(directory: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.rmdir(directory, err => err ? reject(err) : resolve());
+  });
+}
+
+function mkdir(directory: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    fs.mkdir(directory, err => err ? reject(err) : resolve());
+  });
+}
+
+function copyFile(from: string, to: string): Promise<void> {
+  return new Promise((resolve, reject) => {
+    let reader = fs.createReadStream(from);
+    let writer = fs.createWriteStream(to);
+    reader.on('error', reject);
+    writer.on('error', reject);
+    writer.on('close', () => resolve());
+    reader.pipe(writer);
+  });
+}
+
+// Counts the files below |directory| and their total size. A missing
+// directory is empty.
+export function getDirectoryStats(directory: string): Promise<DirectoryStats> {
+  let stats = new DirectoryStats();
+  function visit(file: string): Promise<void> {
+    return lstat(file).then(fileStats => {
+      if (!fileStats.isDirectory()) {
+        stats.files += 1;
+        stats.bytes += fileStats.size;
+        return;
+      }
+      return readdir(file).then(
+          entries => Promise.all(entries.map(e => visit(path.join(file, e))))
+                         .then(() => {}));
+    });
+  }
+  return visit(directory).then(() => stats, err => {
+    if (err.code == 'ENOENT')
+      return stats;
+    throw err;
+  });
+}
+
+// Deletes |file|, which may be a directory, recursively. Succeeds if it does
+// not exist.
+export function removeRecursively(file: string): Promise<void> {
+  return lstat(file).then(
+      stats => {
+        if (!stats.isDirectory())
+          return unlink(file);
+        return readdir(file)
+            .then(
+                entries => Promise.all(
+                    entries.map(e => removeRecursively(path.join(file, e)))))
+            .then(() => rmdir(file));
+      },
+      err => {
+        if (err.code != 'ENOENT')
+          throw err;
+      });
+}
+
+function copyRecursively(from: string, to: string): Promise<void> {
+  return lstat(from).then(stats => {
+    if (!stats.isDirectory())
+      return copyFile(from, to);
+    return mkdir(to)
+        .then(() => readdir(from))
+        .then(
+            entries => Promise.all(entries.map(
+                e => copyRecursively(path.join(from, e), path.join(to, e)))))
+        .then(() => {});
+  });
+}
+
+// Moves the directory |from| to |to|, which must not exist yet. Copies if
+// both are on different devices.
+export function moveDirectory(from: string, to: string): Promise<void> {
+  return new Promise<void>((resolve, reject) => {
+    fs.rename(from, to, err => err ? reject(err) : resolve());
+  }).catch(err => {
+    if (err.code != 'EXDEV')
+      throw err;
+    return copyRecursively(from, to).then(() => removeRecursively(from));
+  });
+}
+
+// Mirrors EscapeFileName in cquery.
+function escapeFileName(file: string): string {
+  if (file.endsWith('/'))
+    file = file.substr(0, file.length - 1);
+  return file.replace(/[\\/:]/g, '@');
+}
+
+// Returns the files cquery may have cached |sourceFile| in. Files inside of
+// |projectRoot| are stored in a directory for the project, other files
+// directly in |cacheDirectory|. Each has a copy of the indexed contents and
+// the serialized index.
+export function getCacheEntryPaths(
+    cacheDirectory: string, projectRoot: string, sourceFile: string): string[] {
+  sourceFile = sourceFile.replace(/\\/g, '/');
+  projectRoot = projectRoot.replace(/\\/g, '/');
+  if (!projectRoot.endsWith('/'))
+    projectRoot += '/';
+
+  let bases = [path.join(cacheDirectory, escapeFileName(sourceFile))];
+  if (sourceFile.startsWith(projectRoot)) {
+    bases.push(path.join(
+        cacheDirectory, escapeFileName(projectRoot),
+        escapeFileName(sourceFile.substr(projectRoot.length))));
+  }
+
+  let result: string[] = [];
+  for (let base of bases) {
+    for (let extension of ['', '.json', '.mpack'])
+      result.push(base + extension);
+  }
+  return result;
+}
+
+export function formatBytes(bytes: number): string {
+  const kUnits = ['B', 'KB', 'MB', 'GB'];
+  let unit = 0;
+  while (bytes >= 1024 && unit < kUnits.length - 1) {
+    bytes /= 1024;
+    unit += 1;
+  }
+  return `${bytes.toFixed(unit == 0 ? 0 : 1)} ${kUnits[unit]}`;
+}
@@ -0,0 +1,200 @@
+import {Disposable, ViewColumn, WebviewPanel, window} from 'vscode';
+
+// Queue sizes from one $cquery/progress notification.
+export interface ProgressSample {
+  time: number;
+  indexRequestCount: number;
+  doIdMapCount: number;
+  onIndexedCount: number;
+  total: number;
+}
+
+// Ten minutes of history if cquery reports progress every second.
+const kMaxSamples = 600;
+// Throughput is averaged over this window.
+const kThroughputWindowMs = 30 * 1000;
+
+export function getTotalJobs(args: any): number {
+  return (args.indexRequestCount || 0) + (args.doIdMapCount || 0) +
+      (args.loadPreviousIndexCount || 0) + (args.onIdMappedCount || 0) +
+      (args.onIndexedCount || 0) + (args.activeThreads || 0);
+}
+
+// Recent $cquery/progress notifications of one client.
+export class ProgressHistory {
+  samples: ProgressSample[] = [];
+
+  add(args: any) {
+    this.samples.push({
+      time: Date.now(),
+      indexRequestCount: args.indexRequestCount || 0,
+      doIdMapCount: args.doIdMapCount || 0,
+      onIndexedCount: args.onIndexedCount || 0,
+      total: getTotalJobs(args)
+    });
+    if (this.samples.length > kMaxSamples)
+      this.samples.shift();
+  }
+
+  // Jobs finished per second in the last |kThroughputWindowMs|. Jobs queued
+  // in the meantime are not known, so this is a lower bound.
+  getThroughput(): number {
+    let now = Date.now();
+    let recent = this.samples.filter(s => now - s.time < kThroughputWindowMs);
+    if (recent.length < 2)
+      return 0;
+    let finished = 0;
+    for (let i = 1; i < recent.length; ++i)
+      finished += Math.max(0, recent[i - 1].total - recent[i].total);
+    let seconds = (recent[recent.length - 1].time - recent[0].time) / 1000;
+    return seconds > 0 ? finished / seconds : 0;
+  }
+
+  // Estimated milliseconds until every queue is empty, or undefined if
+  // cquery is not making progress.
+  getTimeToIdle(): number|undefined {
+    if (this.samples.length == 0)
+      return undefined;
+    let total = this.samples[this.samples.length - 1].total;
+    if (total == 0)
+      return 0;
+    let throughput = this.getThroughput();
+    if (throughput == 0)
+      return undefined;
+    return total / throughput * 1000;
+  }
+}
+
+export function formatDuration(ms: number): string {
+  let seconds = Math.round(ms / 1000);
+  if (seconds < 60)
+    return `${seconds}s`;
+  let minutes = Math.floor(seconds / 60);
+  if (minutes < 60)
+    return `${minutes}m ${seconds % 60}s`;
+  return `${Math.floor(minutes / 60)}h ${minutes % 60}m`;
+}
+
+// Webview which charts the queues of a |ProgressHistory|. The chart is drawn
+// by a script in the webview; |update| sends it the samples.
+export class IndexingDashboard implements Disposable {
+  private panel: WebviewPanel;
+
+  constructor(onDidDispose: () => void) {
+    this.panel = window.createWebviewPanel(
+        'cquery.indexingDashboard', 'cquery Indexing', ViewColumn.Two,
+        {enableScripts: true, retainContextWhenHidden: true});
+    this.panel.webview.html = kDashboardHtml;
+    this.panel.onDidDispose(onDidDispose);
+  }
+
+  reveal() {
+    this.panel.reveal();
+  }
+
+  update(title: string, history: ProgressHistory|undefined) {
+    let timeToIdle = history && history.getTimeToIdle();
+    this.panel.webview.postMessage({
+      title: title,
+      samples: history ? history.samples : [],
+      throughput: history ? history.getThroughput().toFixed(1) : '0',
+      timeToIdle: timeToIdle === undefined ? 'unknown' :
+                                             formatDuration(timeToIdle)
+    });
+  }
+
+  dispose() {
+    this.panel.dispose();
+  }
+}
+
+const kDashboardHtml = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="UTF-8">
+<style>
+  body { padding: 1em; }
+  .legend span { margin-right: 1.5em; }
+  .swatch { display: inline-block; width: 0.8em; height: 0.8em; }
+  canvas { width: 100%; height: 300px; }
+</style>
+</head>
+<body>
+<h2 id="title">Waiting for progress from cquery...</h2>
+<p>Throughput: <b id="throughput">0</b> jobs/s &nbsp;
+   Time to idle: <b id="timeToIdle">unknown</b></p>
+<div class="legend" id="legend"></div>
+<canvas id="chart"></canvas>
+<script>
+  const kSeries = [
+    {key: 'indexRequestCount', name: 'indexRequest', color: '#3794ff'},
+    {key: 'doIdMapCount', name: 'doIdMap', color: '#d18616'},
+    {key: 'onIndexedCount', name: 'onIndexed', color: '#89d185'},
+    {key: 'total', name: 'all jobs', color: '#888888'}
+  ];
+  const legend = document.getElementById('legend');
+  for (const series of kSeries) {
+    legend.innerHTML += '<span><span class="swatch" style="background:' +
+        series.color + '"></span> ' + series.name + '</span>';
+  }
+
+  function draw(samples) {
+    const canvas = document.getElementById('chart');
+    canvas.width = canvas.clientWidth;
+    canvas.height = canvas.clientHeight;
+    const ctx = canvas.getContext('2d');
+    const foreground = getComputedStyle(document.body).color;
+    const pad = 40;
+    const width = canvas.width - 2 * pad;
+    const height = canvas.height - 2 * pad;
+    ctx.clearRect(0, 0, canvas.width, canvas.height);
+    if (samples.length == 0)
+      return;
+
+    const start = samples[0].time;
+    const duration = Math.max(1, samples[samples.length - 1].time - start);
+    const max = Math.max(1, ...samples.map(s => s.total));
+    const x = s => pad + (s.time - start) / duration * width;
+    const y = value => pad + height - value / max * height;
+
+    ctx.strokeStyle = foreground;
+    ctx.fillStyle = foreground;
+    ctx.font = '11px sans-serif';
+    ctx.beginPath();
+    ctx.moveTo(pad, pad);
+    ctx.lineTo(pad, pad + height);
+    ctx.lineTo(pad + width, pad + height);
+    ctx.stroke();
+    ctx.fillText(String(max), 4, pad + 4);
+    ctx.fillText('0', 4, pad + height);
+    const seconds = Math.round(duration / 1000);
+    ctx.fillText('-' + seconds + 's', pad, pad + height + 16);
+    ctx.fillText('now', pad + width - 20, pad + height + 16);
+
+    for (const series of kSeries) {
+      ctx.strokeStyle = series.color;
+      ctx.beginPath();
+      samples.forEach((s, i) => {
+        if (i == 0)
+          ctx.moveTo(x(s), y(s[series.key]));
+        else
+          ctx.lineTo(x(s), y(s[series.key]));
+      });
+      ctx.stroke();
+    }
+  }
+
+  let lastSamples = [];
+  window.addEventListener('message', event => {
+    const message = event.data;
+    document.getElementById('title').textContent = message.title;
+    document.getElementById('throughput').textContent = message.throughput;
+    document.getElementById('timeToIdle').textContent = message.timeToIdle;
+    lastSamples = message.samples;
+    draw(lastSamples);
+  });
+  window.addEventListener('resize', () => draw(lastSamples));
+</script>
+</body>
+</html>
+`;
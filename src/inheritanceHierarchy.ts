@@ -26,7 +26,16 @@ export class InheritanceHierarchyProvider implements
   readonly onDidChangeEmitter: EventEmitter<any> = new EventEmitter<any>();
   readonly onDidChangeTreeData: Event<any> = this.onDidChangeEmitter.event;
 
-  constructor(readonly languageClient: LanguageClient) { }
+  // Document which |root| was requested from. Clients are replaced when they
+  // are restarted, so the one serving it is looked up for every request.
+  documentUri: Uri;
+
+  constructor(
+    readonly resolveClient: (uri: Uri) => LanguageClient | undefined) { }
+
+  get languageClient(): LanguageClient | undefined {
+    return this.documentUri && this.resolveClient(this.documentUri);
+  }
 
   getTreeItem(element: InheritanceHierarchyNode): TreeItem {
     const kBaseName = '[[Base]]'
@@ -66,8 +75,11 @@ export class InheritanceHierarchyProvider implements
       return [this.root];
     if (element.numChildren == element.children.length)
       return element.children;
+    let languageClient = this.languageClient;
+    if (!languageClient)
+      return [];
 
-    return this.languageClient
+    return languageClient
       .sendRequest('$cquery/inheritanceHierarchy', {
         id: element.id,
         kind: element.kind,
@@ -0,0 +1,225 @@
+import * as fs from 'fs';
+import {Event, EventEmitter, TreeDataProvider, TreeItem, TreeItemCollapsibleState, Uri, workspace} from 'vscode';
+import * as ls from 'vscode-languageserver-types';
+
+import {parseUri} from './extension';
+import {SymbolRole} from './semanticHighlighting';
+
+// cquery adds the containing function and the SymbolRole of the reference to
+// some locations.
+export interface ReferenceLocation extends ls.Location {
+  containerName?: string;
+  role?: number;
+}
+
+// Results of one request, ie, the callers of a function.
+export interface ReferenceQuery {
+  title: string;
+  time: number;
+  // The request which returned |locations|, so it can be sent again. Unset
+  // if the locations were not returned by a single request.
+  method?: string;
+  params?: any;
+  // Unset for queries restored from the workspace state until they are sent
+  // again.
+  locations?: ReferenceLocation[];
+}
+
+// Returns the parts of |history| which are saved in the workspace state.
+// Locations are not saved, as there may be thousands of them.
+export function toSavedHistory(history: ReferenceQuery[]): ReferenceQuery[] {
+  return history.filter(query => !!query.method).map(query => {
+    return {
+      title: query.title,
+      time: query.time,
+      method: query.method,
+      params: query.params
+    };
+  });
+}
+
+// Roles the results can be filtered by.
+export const kReferenceRoleFilters: Array<[string, number]> = [
+  ['Read', SymbolRole.Read], ['Write', SymbolRole.Write],
+  ['Call', SymbolRole.Call], ['Address', SymbolRole.Address],
+  ['Implicit', SymbolRole.Implicit]
+];
+
+const kMaxHistory = 20;
+
+export function hasRoles(query: ReferenceQuery): boolean {
+  return !!query.locations && query.locations.some(l => l.role !== undefined);
+}
+
+export enum ReferenceNodeKind {
+  Query,
+  File,
+  Container,
+  Location
+}
+
+export class ReferenceNode {
+  children: ReferenceNode[] = [];
+  // Set for ReferenceNodeKind.Location; |cquery.gotoForTreeView| jumps to it.
+  location: ReferenceLocation;
+
+  constructor(
+      readonly kind: ReferenceNodeKind, public label: string,
+      readonly uri?: Uri) {}
+}
+
+// Tree of the current query, grouped by file and containing function.
+export class ReferencesProvider implements TreeDataProvider<ReferenceNode> {
+  // Most recent query first; the first one is shown.
+  history: ReferenceQuery[] = [];
+  // Mask of SymbolRole; references with none of these roles are hidden. 0
+  // shows every reference.
+  roleFilter = 0;
+
+  readonly onDidChangeEmitter: EventEmitter<any> = new EventEmitter<any>();
+  readonly onDidChangeTreeData: Event<any> = this.onDidChangeEmitter.event;
+
+  get current(): ReferenceQuery|undefined {
+    return this.history[0];
+  }
+
+  // Shows |query| and moves it to the front of the history.
+  show(query: ReferenceQuery) {
+    this.history = this.history.filter(q => q !== query);
+    this.history.unshift(query);
+    if (this.history.length > kMaxHistory)
+      this.history.length = kMaxHistory;
+    this.onDidChangeEmitter.fire();
+  }
+
+  clear() {
+    this.history = [];
+    this.onDidChangeEmitter.fire();
+  }
+
+  private isVisible(location: ReferenceLocation): boolean {
+    return this.roleFilter == 0 ||
+        (location.role !== undefined && (location.role & this.roleFilter) != 0);
+  }
+
+  getTreeItem(element: ReferenceNode): TreeItem {
+    if (element.kind == ReferenceNodeKind.Location) {
+      let item = new TreeItem(element.label, TreeItemCollapsibleState.None);
+      item.contextValue = 'cqueryGoto';
+      item.command = {
+        command: 'cquery.gotoForTreeView',
+        title: 'Goto',
+        arguments: [element]
+      };
+      return item;
+    }
+
+    let item = new TreeItem(element.label, TreeItemCollapsibleState.Expanded);
+    if (element.kind == ReferenceNodeKind.File) {
+      item.resourceUri = element.uri;
+      item.tooltip = element.uri.fsPath;
+    }
+    return item;
+  }
+
+  getChildren(element?: ReferenceNode):
+      ReferenceNode[]|Thenable<ReferenceNode[]> {
+    let query = this.current;
+    if (!query || !query.locations)
+      return [];
+    if (!element)
+      return [this.makeQueryNode(query)];
+    if (element.kind == ReferenceNodeKind.File) {
+      // Previews are read when the file is expanded.
+      return readLines(element.uri).then(lines => {
+        setPreviews(element, lines);
+        return element.children;
+      });
+    }
+    return element.children;
+  }
+
+  private makeQueryNode(query: ReferenceQuery): ReferenceNode {
+    let locations = query.locations.filter(l => this.isVisible(l));
+    let label = `${query.title} (${locations.length})`;
+    if (locations.length != query.locations.length)
+      label += ' [filtered]';
+    let root = new ReferenceNode(ReferenceNodeKind.Query, label);
+
+    let files = new Map<string, ReferenceNode>();
+    for (let location of locations) {
+      let file = files.get(location.uri);
+      if (!file) {
+        let uri = parseUri(location.uri);
+        file = new ReferenceNode(
+            ReferenceNodeKind.File, workspace.asRelativePath(uri), uri);
+        files.set(location.uri, file);
+      }
+      let parent = file;
+      if (location.containerName) {
+        parent = file.children.find(
+            c => c.kind == ReferenceNodeKind.Container &&
+                c.label == location.containerName);
+        if (!parent) {
+          parent = new ReferenceNode(
+              ReferenceNodeKind.Container, location.containerName);
+          file.children.push(parent);
+        }
+      }
+      let node = new ReferenceNode(ReferenceNodeKind.Location, '');
+      node.location = location;
+      parent.children.push(node);
+    }
+
+    root.children = Array.from(files.values())
+                        .sort((a, b) => a.label.localeCompare(b.label));
+    for (let file of root.children)
+      sortByPosition(file);
+    return root;
+  }
+}
+
+function sortByPosition(node: ReferenceNode) {
+  function start(n: ReferenceNode): ls.Position {
+    return n.location ? n.location.range.start : start(n.children[0]);
+  }
+  node.children.forEach(c => sortByPosition(c));
+  node.children.sort((a, b) => {
+    let pa = start(a);
+    let pb = start(b);
+    return pa.line - pb.line || pa.character - pb.character;
+  });
+}
+
+// Reads the file from disk instead of opening a document, which would make
+// cquery index it.
+function readLines(uri: Uri): Thenable<string[]> {
+  return new Promise(resolve => {
+    fs.readFile(
+        uri.fsPath, 'utf8',
+        (err, data) => resolve(err ? [] : data.split(/\r?\n/)));
+  });
+}
+
+function setPreviews(node: ReferenceNode, lines: string[]) {
+  for (let child of node.children) {
+    if (child.kind != ReferenceNodeKind.Location) {
+      setPreviews(child, lines);
+      continue;
+    }
+    let line = child.location.range.start.line;
+    let text = (lines[line] || '').trim();
+    child.label = text ? `${line + 1}: ${text}` : `Line ${line + 1}`;
+    let roles = describeFilteredRoles(child.location.role);
+    if (roles)
+      child.label += `  (${roles})`;
+  }
+}
+
+function describeFilteredRoles(role: number|undefined): string {
+  if (role === undefined)
+    return '';
+  return kReferenceRoleFilters.filter(([_, bit]) => (role & bit) != 0)
+      .map(([name, _]) => name.toLowerCase())
+      .join(', ');
+}
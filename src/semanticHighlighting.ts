@@ -0,0 +1,429 @@
+import {DecorationRangeBehavior, DecorationRenderOptions, OverviewRulerLane, Position, Range, TextEditorDecorationType, window, workspace} from 'vscode';
+
+import {CategoryStyle, getThemeColorForCategory, HighlightingPreset} from './highlightingPresets';
+
+export enum SymbolKind {
+  // lsSymbolKind
+  Unknown = 0,
+  File,
+  Module,
+  Namespace,
+  Package,
+
+  Class = 5,
+  Method,
+  Property,
+  Field,
+  Constructor,
+
+  Enum = 10,
+  Interface,
+  Function,
+  Variable,
+  Constant,
+
+  String = 15,
+  Number,
+  Boolean,
+  Array,
+  Object,
+
+  Key = 20,
+  Null,
+  EnumMember,
+  Struct,
+  Event,
+
+  Operator = 25,
+  TypeParameter,
+
+  // cquery extensions
+  TypeAlias = 252,
+  Parameter = 253,
+  StaticMethod = 254,
+  Macro = 255
+}
+export enum StorageClass {
+  Invalid,
+  None,
+  Extern,
+  Static,
+  PrivateExtern,
+  Auto,
+  Register
+}
+export namespace SymbolRole {
+  export const Declaration: number = 1 << 0;
+  export const Definition: number = 1 << 1;
+  export const Reference = 1 << 2;
+  export const Read = 1 << 3;
+  export const Write = 1 << 4;
+  export const Call = 1 << 5;
+  export const Dynamic = 1 << 6;
+  export const Address = 1 << 7;
+  export const Implicit = 1 << 8;
+}
+
+export class SemanticSymbol {
+  constructor(
+      readonly stableId: number, readonly parentKind: SymbolKind,
+      readonly kind: SymbolKind, readonly isTypeMember: boolean,
+      readonly storage: StorageClass, readonly role: number,
+      readonly ranges: Array<Range>) {}
+}
+
+export class PublishSemanticHighlightingArgs {
+  readonly uri: string;
+  readonly symbols: SemanticSymbol[];
+}
+
+// A user configurable highlighting rule, see |cquery.highlighting.rules|.
+// Omitted matchers match every symbol. Kinds, storage classes and roles are
+// given by name, ie, 'Function', 'Static' or 'Write'.
+export interface HighlightingRule {
+  name?: string
+  kind?: string|string[]
+  parentKind?: string|string[]
+  storage?: string|string[]
+  // At least one of these role bits must be set.
+  role?: string|string[]
+  // None of these role bits may be set.
+  notRole?: string|string[]
+  isTypeMember?: boolean
+
+  // If multiple colors are given, successive symbols cycle through them.
+  // |light| and |dark| override |color| for light and dark color themes.
+  color?: string|string[]
+  light?: string|string[]
+  dark?: string|string[]
+  underline?: boolean
+  italic?: boolean
+  bold?: boolean
+}
+
+// The built-in highlighting categories. Their styles come from the active
+// preset or the |cquery.highlighting.{enabled,colors,underline,italic,bold}.*|
+// settings and they are matched after every other rule, in this order.
+const kDeclarationRoles = ['Declaration', 'Definition'];
+export const kHighlightingCategories: Array<[string, HighlightingRule]> = [
+  ['types', {kind: ['Class', 'Struct']}],
+  ['enums', {kind: 'Enum'}],
+  ['typeAliases', {kind: 'TypeAlias'}],
+  ['templateParameters', {kind: 'TypeParameter'}],
+  [
+    'freeStandingFunctionDeclarations',
+    {kind: 'Function', role: kDeclarationRoles}
+  ],
+  ['freeStandingFunctions', {kind: 'Function'}],
+  [
+    'memberFunctionDeclarations',
+    {kind: ['Method', 'Constructor'], role: kDeclarationRoles}
+  ],
+  ['memberFunctions', {kind: ['Method', 'Constructor']}],
+  [
+    'staticMemberFunctionDeclarations',
+    {kind: 'StaticMethod', role: kDeclarationRoles}
+  ],
+  ['staticMemberFunctions', {kind: 'StaticMethod'}],
+  [
+    'freeStandingVariables',
+    {kind: 'Variable', parentKind: ['Function', 'Method', 'Constructor']}
+  ],
+  ['globalVariables', {kind: 'Variable'}],
+  ['staticMemberVariables', {kind: 'Field', storage: 'Static'}],
+  ['memberVariables', {kind: 'Field'}],
+  ['parameters', {kind: 'Parameter'}],
+  ['enumConstants', {kind: 'EnumMember'}],
+  ['namespaces', {kind: 'Namespace'}],
+  ['macros', {kind: 'Macro'}],
+];
+
+function toArray<T>(value: T|T[]|undefined): T[]|undefined {
+  if (value === undefined)
+    return undefined;
+  return Array.isArray(value) ? value : [value];
+}
+
+export class CompiledHighlightingRule {
+  private kinds: Set<number>|undefined;
+  private parentKinds: Set<number>|undefined;
+  private storages: Set<number>|undefined;
+  private role: number|undefined;
+  private notRole: number|undefined;
+
+  // |decorations| is empty if the rule matches but does not style symbols,
+  // ie, for a disabled category.
+  constructor(
+      readonly name: string, readonly rule: HighlightingRule,
+      readonly decorations: TextEditorDecorationType[]) {
+    function lookup(names: string[]|undefined, table: any): Set<number>|
+        undefined {
+      if (!names)
+        return undefined;
+      let result = new Set<number>();
+      for (let n of names) {
+        if (typeof (table[n]) != 'number')
+          throw new Error(`unknown name "${n}"`);
+        result.add(table[n]);
+      }
+      return result;
+    }
+    function lookupRoles(names: string[]|undefined): number|undefined {
+      let roles = lookup(names, SymbolRole);
+      if (!roles)
+        return undefined;
+      let mask = 0;
+      roles.forEach(r => mask |= r);
+      return mask;
+    }
+
+    this.kinds = lookup(toArray(rule.kind), SymbolKind);
+    this.parentKinds = lookup(toArray(rule.parentKind), SymbolKind);
+    this.storages = lookup(toArray(rule.storage), StorageClass);
+    this.role = lookupRoles(toArray(rule.role));
+    this.notRole = lookupRoles(toArray(rule.notRole));
+  }
+
+  matches(symbol: SemanticSymbol): boolean {
+    if (this.kinds && !this.kinds.has(symbol.kind))
+      return false;
+    if (this.parentKinds && !this.parentKinds.has(symbol.parentKind))
+      return false;
+    if (this.storages && !this.storages.has(symbol.storage))
+      return false;
+    if (this.role !== undefined && (symbol.role & this.role) == 0)
+      return false;
+    if (this.notRole !== undefined && (symbol.role & this.notRole) != 0)
+      return false;
+    if (this.rule.isTypeMember !== undefined &&
+        this.rule.isTypeMember != symbol.isTypeMember)
+      return false;
+    return true;
+  }
+
+  // Returns the decoration for |symbol|, or undefined if it is not styled.
+  getDecoration(symbol: SemanticSymbol): TextEditorDecorationType|undefined {
+    if (this.decorations.length == 0)
+      return undefined;
+    return this.decorations[symbol.stableId % this.decorations.length];
+  }
+
+  dispose() {
+    this.decorations.forEach(d => d.dispose());
+  }
+}
+
+function makeSemanticDecorationType(
+    color: string|undefined, light: string|undefined, dark: string|undefined,
+    underline: boolean, italic: boolean, bold: boolean,
+    overviewRuler: boolean): TextEditorDecorationType {
+  let opts: any = {};
+  opts.rangeBehavior = DecorationRangeBehavior.ClosedClosed;
+  opts.color = color;
+  if (light)
+    opts.light = {color: light};
+  if (dark)
+    opts.dark = {color: dark};
+  if (underline == true)
+    opts.textDecoration = 'underline';
+  if (italic == true)
+    opts.fontStyle = 'italic';
+  if (bold == true)
+    opts.fontWeight = 'bold';
+  if (overviewRuler) {
+    // Mark symbols in the overview ruler using their text color.
+    opts.overviewRulerLane = OverviewRulerLane.Right;
+    opts.overviewRulerColor = color;
+    if (light)
+      opts.light.overviewRulerColor = light;
+    if (dark)
+      opts.dark.overviewRulerColor = dark;
+  }
+  return window.createTextEditorDecorationType(<DecorationRenderOptions>opts);
+}
+
+// Creates one decoration per palette entry. Palettes of different lengths
+// wrap around.
+function makeDecorations(
+    colors: string[], light: string[], dark: string[], underline: boolean,
+    italic: boolean, bold: boolean,
+    overviewRuler: boolean): TextEditorDecorationType[] {
+  let count = Math.max(colors.length, light.length, dark.length);
+  let result: TextEditorDecorationType[] = [];
+  for (let i = 0; i < count; ++i) {
+    result.push(makeSemanticDecorationType(
+        colors.length ? colors[i % colors.length] : undefined,
+        light.length ? light[i % light.length] : undefined,
+        dark.length ? dark[i % dark.length] : undefined, underline, italic,
+        bold, overviewRuler));
+  }
+  return result;
+}
+
+// Returns the effective style of the built-in category |name|. The preset wins
+// over the individual settings, and with |cquery.highlighting.useThemeColors|
+// the color theme wins over both.
+export function getCategoryStyle(
+    name: string, preset: HighlightingPreset|undefined): CategoryStyle {
+  let config = workspace.getConfiguration('cquery');
+  let presetStyle: CategoryStyle =
+      preset && preset.categories && preset.categories[name];
+
+  let style: CategoryStyle;
+  if (presetStyle) {
+    style = {
+      enabled: presetStyle.enabled !== false,
+      light: presetStyle.light || [],
+      dark: presetStyle.dark || [],
+      underline: presetStyle.underline == true,
+      italic: presetStyle.italic == true,
+      bold: presetStyle.bold == true
+    };
+  } else {
+    let colors = config.get<string[]>(`highlighting.colors.${name}`, []);
+    style = {
+      // A preset only enables the categories it lists.
+      enabled: !preset && config.get(`highlighting.enabled.${name}`, false),
+      light: colors,
+      dark: colors,
+      underline: config.get(`highlighting.underline.${name}`, false),
+      italic: config.get(`highlighting.italic.${name}`, false),
+      bold: config.get(`highlighting.bold.${name}`, false)
+    };
+  }
+
+  if (config.get('highlighting.useThemeColors', false)) {
+    let themeColor = getThemeColorForCategory(name);
+    if (themeColor) {
+      // The theme color already matches the active theme, so it is used for
+      // both palettes.
+      style.light = [themeColor];
+      style.dark = [themeColor];
+    }
+  }
+  return style;
+}
+
+function compileRule(
+    name: string, rule: HighlightingRule, overviewRuler: boolean,
+    result: CompiledHighlightingRule[]) {
+  // Unlike the categories, a rule without colors can still change the font
+  // style.
+  let colors = toArray(rule.color) || [];
+  let light = toArray(rule.light) || [];
+  let dark = toArray(rule.dark) || [];
+  if (colors.length + light.length + dark.length == 0)
+    colors = [undefined];
+  let decorations = makeDecorations(
+      colors, light, dark, rule.underline, rule.italic, rule.bold,
+      overviewRuler);
+  try {
+    result.push(new CompiledHighlightingRule(name, rule, decorations));
+  } catch (e) {
+    decorations.forEach(d => d.dispose());
+    window.showWarningMessage(
+        `Ignoring cquery highlighting rule "${name}": ${e.message}.`);
+  }
+}
+
+// Builds the user rules from |cquery.highlighting.rules|, then the rules of
+// |preset|, followed by the built-in categories. The first matching rule
+// decides the style of a symbol.
+export function makeHighlightingRules(preset: HighlightingPreset|undefined):
+    CompiledHighlightingRule[] {
+  let config = workspace.getConfiguration('cquery');
+  let result: CompiledHighlightingRule[] = [];
+  // Names of the rules and categories which are marked in the overview ruler.
+  let overviewRuler =
+      new Set(config.get<string[]>('highlighting.overviewRuler', []));
+
+  let userRules = config.get<HighlightingRule[]>('highlighting.rules', []);
+  userRules.forEach((rule, index) => {
+    let name = rule.name || `rules[${index}]`;
+    compileRule(name, rule, overviewRuler.has(name), result);
+  });
+  if (preset) {
+    (preset.rules || []).forEach((rule, index) => {
+      let name = rule.name || `${preset.name}.rules[${index}]`;
+      compileRule(name, rule, overviewRuler.has(name), result);
+    });
+  }
+
+  for (let [name, rule] of kHighlightingCategories) {
+    let decorations: TextEditorDecorationType[] = [];
+    let style = getCategoryStyle(name, preset);
+    if (style.enabled) {
+      decorations = makeDecorations(
+          [], style.light, style.dark, style.underline, style.italic,
+          style.bold, overviewRuler.has(name));
+    }
+    result.push(new CompiledHighlightingRule(name, rule, decorations));
+  }
+
+  return result;
+}
+
+export function findHighlightingRule(
+    rules: CompiledHighlightingRule[],
+    symbol: SemanticSymbol): CompiledHighlightingRule|undefined {
+  for (let rule of rules) {
+    if (rule.matches(symbol))
+      return rule;
+  }
+  return undefined;
+}
+
+// Returns the symbol with the innermost range containing |position|.
+export function findSemanticSymbolAt(
+    args: PublishSemanticHighlightingArgs,
+    position: Position): [SemanticSymbol, Range]|undefined {
+  let result: [SemanticSymbol, Range]|undefined;
+  for (let symbol of args.symbols) {
+    for (let range of symbol.ranges) {
+      if (!range.contains(position))
+        continue;
+      if (!result || result[1].contains(range))
+        result = [symbol, range];
+    }
+  }
+  return result;
+}
+
+function describeKind(kind: SymbolKind): string {
+  return SymbolKind[kind] || `${kind}`;
+}
+
+// Returns the names of the SymbolRole bits set in |role|.
+export function describeRoles(role: number): string[] {
+  let names: string[] = [];
+  for (let name of Object.keys(SymbolRole)) {
+    if (role & SymbolRole[name])
+      names.push(name);
+  }
+  return names;
+}
+
+// Returns (field, value) pairs describing |symbol| and the rule styling it.
+export function describeSemanticSymbol(
+    symbol: SemanticSymbol,
+    rule: CompiledHighlightingRule|undefined): Array<[string, string]> {
+  let roles = describeRoles(symbol.role);
+  return [
+    ['Kind', describeKind(symbol.kind)],
+    ['Parent kind', describeKind(symbol.parentKind)],
+    ['Storage', StorageClass[symbol.storage] || `${symbol.storage}`],
+    [
+      'Roles',
+      roles.length > 0 ? `${roles.join(' | ')} (${symbol.role})` : 'None (0)'
+    ],
+    ['Type member', symbol.isTypeMember ? 'yes' : 'no'],
+    ['Stable id', `${symbol.stableId}`],
+    ['Occurrences', `${symbol.ranges.length}`],
+    [
+      'Rule', rule ?
+          (rule.decorations.length > 0 ? rule.name :
+                                         `${rule.name} (disabled)`) :
+          'none'
+    ],
+  ];
+}
@@ -0,0 +1,138 @@
+import * as cp from 'child_process';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import {workspace, WorkspaceFolder} from 'vscode';
+
+// Oldest cquery release the extension is tested with. cquery versions are
+// release dates, ie, v20180718.
+export const kMinimumServerVersion = 20180718;
+
+const kBinaryName = process.platform == 'win32' ? 'cquery.exe' : 'cquery';
+
+function isExecutable(file: string): boolean {
+  try {
+    if (!fs.statSync(file).isFile())
+      return false;
+    if (process.platform != 'win32')
+      fs.accessSync(file, fs.constants.X_OK);
+    return true;
+  } catch (e) {
+    return false;
+  }
+}
+
+// Directories searched for cquery after PATH.
+function getInstallPrefixes(): string[] {
+  let home = os.homedir();
+  if (process.platform == 'win32') {
+    return [process.env['ProgramFiles'], process.env['LOCALAPPDATA']]
+        .filter(root => !!root)
+        .map(root => path.join(root, 'cquery', 'bin'));
+  }
+  return [
+    '/usr/local/bin', '/usr/bin', '/opt/cquery/bin', '/opt/local/bin',
+    path.join(home, '.local', 'bin'),
+    path.join(home, 'cquery', 'build', 'release', 'bin')
+  ];
+}
+
+// Build directories inside of a workspace folder which may contain cquery,
+// ie, when working on cquery itself. Binaries found there come from the
+// workspace, which may not be trusted, so they are never run unless the user
+// chooses them.
+function getWorkspaceBuildDirectories(folder: WorkspaceFolder): string[] {
+  let root = folder.uri.fsPath;
+  return [
+    path.join(root, 'build', 'release', 'bin'),
+    path.join(root, 'build', 'bin'), path.join(root, 'build'),
+    path.join(root, 'cquery', 'build', 'release', 'bin')
+  ];
+}
+
+// Returns every cquery binary on PATH, in the common install prefixes and in
+// the build directories of |folder|, in that order and without duplicates.
+export function findServerBinaries(folder: WorkspaceFolder|undefined):
+    string[] {
+  let directories = (process.env['PATH'] || '').split(path.delimiter);
+  directories = directories.concat(getInstallPrefixes());
+  if (folder)
+    directories = directories.concat(getWorkspaceBuildDirectories(folder));
+
+  let result: string[] = [];
+  let seen = new Set<string>();
+  for (let directory of directories) {
+    if (!directory)
+      continue;
+    let file = path.join(directory, kBinaryName);
+    if (!isExecutable(file))
+      continue;
+    let realPath = fs.realpathSync(file);
+    if (seen.has(realPath))
+      continue;
+    seen.add(realPath);
+    result.push(file);
+  }
+  return result;
+}
+
+// Returns true if |binary| was found in a build directory of |folder|.
+export function isWorkspaceBinary(
+    binary: string, folder: WorkspaceFolder|undefined): boolean {
+  return !!folder &&
+      getWorkspaceBuildDirectories(folder).indexOf(path.dirname(binary)) >= 0;
+}
+
+// Returns true if the user configured |cquery.launch.command| explicitly, in
+// which case no other binary is searched for.
+export function hasExplicitLaunchCommand(folder: WorkspaceFolder|undefined):
+    boolean {
+  let inspection = workspace.getConfiguration('cquery', folder && folder.uri)
+                       .inspect('launch.command');
+  return inspection.globalValue !== undefined ||
+      inspection.workspaceValue !== undefined ||
+      inspection.workspaceFolderValue !== undefined;
+}
+
+// Versions are cached per binary and modification time since running cquery
+// takes a moment.
+let versionCache = new Map<string, Promise<string|undefined>>();
+
+// Runs |binary| to find out its version. Resolves to undefined if the version
+// cannot be determined.
+export function getServerVersion(binary: string): Promise<string|undefined> {
+  let key = binary;
+  try {
+    key += `@${fs.statSync(binary).mtime.getTime()}`;
+  } catch (e) {
+    // Binaries found through PATH by the shell are not stat-able by name.
+  }
+  if (!versionCache.has(key)) {
+    versionCache.set(key, new Promise(resolve => {
+      cp.execFile(
+          binary, ['--version'], {timeout: 5000}, (error, stdout, stderr) => {
+            let match = /v?(\d{8})/.exec(`${stdout}\n${stderr}`);
+            resolve(match ? match[1] : undefined);
+          });
+    }));
+  }
+  return versionCache.get(key);
+}
+
+export function isServerVersionSupported(version: string): boolean {
+  return parseInt(version) >= kMinimumServerVersion;
+}
+
+// Returns a user facing description of an error from spawning |command|.
+export function describeSpawnError(error: any, command: string): string {
+  switch (error && error.code) {
+    case 'ENOENT':
+      return `cquery binary "${command}" was not found. Either add cquery ` +
+          'to your PATH or make cquery.launch.command an absolute path.';
+    case 'EACCES':
+      return `cquery binary "${command}" is not executable; check its ` +
+          'permissions.';
+  }
+  let message = error && error.message ? error.message : `${error}`;
+  return `Failed to start cquery ("${command}"): ${message}`;
+}
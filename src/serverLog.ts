@@ -0,0 +1,134 @@
+import * as cp from 'child_process';
+import {OutputChannel} from 'vscode';
+import {DataCallback, Message, MessageReader, MessageWriter, StreamMessageReader, StreamMessageWriter} from 'vscode-jsonrpc';
+import {MessageTransports} from 'vscode-languageclient/lib/client';
+
+const kMaxStderrLength = 64 * 1024;
+const kMaxMessages = 50;
+// Messages like didOpen or semantic highlighting can be huge.
+const kMaxMessageLength = 4 * 1024;
+
+class LoggedMessage {
+  constructor(
+      readonly time: Date, readonly direction: string,
+      readonly message: Message) {}
+}
+
+// Keeps the recent stderr output and JSON-RPC traffic of a cquery process, so
+// it can be attached to a crash report.
+export class ServerLog {
+  stderr = '';
+  messages: LoggedMessage[] = [];
+  // Times at which the server crashed.
+  crashes: Date[] = [];
+
+  appendStderr(text: string) {
+    this.stderr += text;
+    if (this.stderr.length > kMaxStderrLength)
+      this.stderr = this.stderr.substr(this.stderr.length - kMaxStderrLength);
+  }
+
+  appendMessage(direction: string, message: Message) {
+    this.messages.push(new LoggedMessage(new Date(), direction, message));
+    if (this.messages.length > kMaxMessages)
+      this.messages.shift();
+  }
+}
+
+// Forwards to |reader| and logs every received message.
+class LoggingMessageReader implements MessageReader {
+  constructor(private reader: MessageReader, private log: ServerLog) {}
+
+  get onError() {
+    return this.reader.onError;
+  }
+  get onClose() {
+    return this.reader.onClose;
+  }
+  get onPartialMessage() {
+    return this.reader.onPartialMessage;
+  }
+
+  listen(callback: DataCallback) {
+    this.reader.listen(message => {
+      this.log.appendMessage('received', message);
+      callback(message);
+    });
+  }
+
+  dispose() {
+    this.reader.dispose();
+  }
+}
+
+// Forwards to |writer| and logs every sent message.
+class LoggingMessageWriter implements MessageWriter {
+  constructor(private writer: MessageWriter, private log: ServerLog) {}
+
+  get onError() {
+    return this.writer.onError;
+  }
+  get onClose() {
+    return this.writer.onClose;
+  }
+
+  write(message: Message) {
+    this.log.appendMessage('sent', message);
+    this.writer.write(message);
+  }
+
+  dispose() {
+    this.writer.dispose();
+  }
+}
+
+// Wraps the stdio of |serverProcess| in transports which record the traffic
+// and stderr output in |log|. stderr is still shown in |outputChannel|.
+export function makeLoggingTransports(
+    serverProcess: cp.ChildProcess, log: ServerLog,
+    getOutputChannel: () => OutputChannel): MessageTransports {
+  serverProcess.stderr.on('data', data => {
+    let text = data.toString();
+    log.appendStderr(text);
+    getOutputChannel().append(text);
+  });
+  return {
+    reader: new LoggingMessageReader(
+        new StreamMessageReader(serverProcess.stdout), log),
+    writer: new LoggingMessageWriter(
+        new StreamMessageWriter(serverProcess.stdin), log)
+  };
+}
+
+// Returns a markdown crash report containing |log| and |clientConfig|.
+export function formatCrashReport(log: ServerLog, clientConfig: any): string {
+  let lines = ['# cquery crash report', ''];
+  lines.push(`Generated: ${new Date().toISOString()}`);
+  lines.push(`Platform: ${process.platform} ${process.arch}`);
+  lines.push('');
+
+  lines.push('## Crashes', '');
+  if (log.crashes.length == 0)
+    lines.push('None recorded.');
+  for (let crash of log.crashes)
+    lines.push(`- ${crash.toISOString()}`);
+  lines.push('');
+
+  lines.push('## Configuration', '', '```json');
+  lines.push(JSON.stringify(clientConfig, null, 2));
+  lines.push('```', '');
+
+  lines.push('## stderr', '', '```');
+  lines.push(log.stderr || '(empty)');
+  lines.push('```', '');
+
+  lines.push(`## Last ${log.messages.length} JSON-RPC messages`, '');
+  for (let entry of log.messages) {
+    lines.push(`### ${entry.time.toISOString()} ${entry.direction}`, '');
+    let json = JSON.stringify(entry.message, null, 2);
+    if (json.length > kMaxMessageLength)
+      json = json.substr(0, kMaxMessageLength) + '\n... (truncated)';
+    lines.push('```json', json, '```', '');
+  }
+  return lines.join('\n');
+}
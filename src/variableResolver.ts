@@ -0,0 +1,91 @@
+import * as os from 'os';
+import * as path from 'path';
+import {window, workspace, WorkspaceFolder} from 'vscode';
+
+// Variables which have already been reported, so the warning is only shown
+// once per session.
+let reportedUnknownVariables = new Set<string>();
+
+function reportUnknownVariable(variable: string) {
+  if (reportedUnknownVariables.has(variable))
+    return;
+  reportedUnknownVariables.add(variable);
+  window.showWarningMessage(
+      `Unknown variable "\${${variable}}" in cquery settings; it will not ` +
+      'be replaced. Supported variables are ${workspaceFolder}, ' +
+      '${workspaceFolder:name}, ${workspaceFolderBasename}, ${env:VAR}, ' +
+      '${userHome}, ${config:name} and ${cwd}.');
+}
+
+// Returns the value of |variable| (without the surrounding ${}), or undefined
+// if it is not known.
+function resolveVariable(
+    variable: string, folder: WorkspaceFolder|undefined): string|undefined {
+  let folderPath = folder ? folder.uri.fsPath : workspace.rootPath;
+
+  let colon = variable.indexOf(':');
+  if (colon >= 0) {
+    let name = variable.substr(0, colon);
+    let argument = variable.substr(colon + 1);
+    switch (name) {
+      case 'env':
+        return process.env[argument] || '';
+      case 'config': {
+        let value = workspace.getConfiguration(undefined, folder && folder.uri)
+                        .get(argument);
+        if (value === undefined)
+          return undefined;
+        return typeof (value) == 'string' ? value : JSON.stringify(value);
+      }
+      case 'workspaceFolder': {
+        for (let f of workspace.workspaceFolders || []) {
+          if (f.name == argument)
+            return f.uri.fsPath;
+        }
+        return undefined;
+      }
+    }
+    return undefined;
+  }
+
+  switch (variable) {
+    case 'workspaceFolder':
+      return folderPath;
+    case 'workspaceFolderBasename':
+      return folderPath ? path.basename(folderPath) : undefined;
+    case 'userHome':
+      return os.homedir();
+    case 'cwd':
+      return process.cwd();
+  }
+  return undefined;
+}
+
+function resolveVariablesInString(
+    value: string, folder: WorkspaceFolder|undefined) {
+  return value.replace(/\$\{([^}]*)\}/g, (match, variable: string) => {
+    let resolved = resolveVariable(variable, folder);
+    if (resolved === undefined) {
+      reportUnknownVariable(variable);
+      return match;
+    }
+    return resolved;
+  });
+}
+
+// Replaces ${...} variables in |value|. Arrays and objects are resolved
+// recursively; other values are returned unchanged.
+export function resolveVariables(
+    value: any, folder: WorkspaceFolder|undefined): any {
+  if (typeof (value) == 'string')
+    return resolveVariablesInString(value, folder);
+  if (Array.isArray(value))
+    return value.map(v => resolveVariables(v, folder));
+  if (value && typeof (value) == 'object') {
+    let result = {};
+    for (let key of Object.keys(value))
+      result[key] = resolveVariables(value[key], folder);
+    return result;
+  }
+  return value;
+}
@@ -0,0 +1,67 @@
+import {TextEdit, Uri, window, workspace, WorkspaceEdit} from 'vscode';
+import {createConverter as createProtocolConverter} from 'vscode-languageclient/lib/protocolConverter';
+import * as ls from 'vscode-languageserver-types';
+
+const p2c = createProtocolConverter();
+
+// cquery sends the uri of a document and its edits. Edits of several
+// documents are sent as a protocol WorkspaceEdit instead.
+export function asWorkspaceEdit(
+    uri: string|ls.WorkspaceEdit, pTextEdits?: ls.TextEdit[]): WorkspaceEdit {
+  if (typeof uri != 'string')
+    return p2c.asWorkspaceEdit(uri);
+  let edit = new WorkspaceEdit();
+  edit.set(p2c.asUri(uri), p2c.asTextEdits(pTextEdits));
+  return edit;
+}
+
+function describeFiles(uris: Uri[]): string {
+  return uris.map(uri => workspace.asRelativePath(uri)).join(', ');
+}
+
+// Applies |edit|, which may change several documents, without opening
+// editors, so the focus stays where it is. |description| names the edit in
+// error messages, ie, 'FixIt'. Resolves to false if the edit was not applied.
+export function applyWorkspaceEdit(
+    edit: WorkspaceEdit, description: string): Thenable<boolean> {
+  let uris = edit.entries().map(([uri, _]) => uri);
+  if (uris.length == 0)
+    return Promise.resolve(true);
+  return workspace.applyEdit(edit).then(
+      success => {
+        if (!success) {
+          window.showErrorMessage(
+              `Failed to apply ${description} to ${describeFiles(uris)}. ` +
+              'The files may have changed since cquery computed the edit; ' +
+              'try again once cquery has reindexed them.');
+        }
+        return success;
+      },
+      err => {
+        window.showErrorMessage(
+            `Failed to apply ${description} to ${describeFiles(uris)}: ${
+                err.message || err}`);
+        return false;
+      });
+}
+
+// Returns |edits| sorted by position, without duplicates and without edits
+// which overlap an earlier one. vscode rejects a workspace edit with
+// overlapping edits as a whole.
+export function removeOverlappingEdits(edits: TextEdit[]): TextEdit[] {
+  let sorted = edits.slice().sort(
+      (a, b) => a.range.start.compareTo(b.range.start) ||
+          a.range.end.compareTo(b.range.end));
+  let result: TextEdit[] = [];
+  for (let edit of sorted) {
+    let last = result[result.length - 1];
+    if (last && last.range.isEqual(edit.range) &&
+        last.newText == edit.newText)
+      continue;
+    // Edits which only touch, ie, insertions at the same position, are kept.
+    if (last && last.range.end.isAfter(edit.range.start))
+      continue;
+    result.push(edit);
+  }
+  return result;
+}